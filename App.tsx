@@ -1,47 +1,154 @@
 
 import React, { useEffect, useState, useRef } from 'react';
-import { Mic, MicOff, Power, Terminal, Monitor, MonitorX, X, Cpu, Zap, Database, Copy, Trash, Clock, Lightbulb, Image as ImageIcon, List, FileText, Table, Download, Eye, EyeOff, LayoutGrid, ChevronLeft } from 'lucide-react';
+import { Mic, MicOff, Power, Terminal, Monitor, MonitorX, X, Cpu, Zap, Database, Copy, Trash, Clock, Lightbulb, Image as ImageIcon, List, FileText, Table, Download, Eye, EyeOff, LayoutGrid, ChevronLeft, Play, Search, Upload, FileDown, Settings, Pencil, Save, Undo2, Trash2, History, ArchiveRestore, ShieldAlert, Check, LoaderCircle, ListTodo, Camera } from 'lucide-react';
 import { useLiveAgent } from './hooks/useLiveAgent';
 import { Visualizer } from './components/Visualizer';
-import { ConnectionState, SessionData, CanvasItem } from './types';
-import { getAllSessions, deleteSession } from './utils/db';
+import { Highlight } from './components/Highlight';
+import { PersonaSettings } from './components/PersonaSettings';
+import { Spreadsheet } from './components/Spreadsheet';
+import { Markdown } from './components/Markdown';
+import { ItemHistory } from './components/ItemHistory';
+import { ImageEditBar } from './components/ImageEditBar';
+import { ImageVersions } from './components/ImageVersions';
+import { ConnectionState, SessionData, SessionSummary, CanvasItem, PersonaProfile } from './types';
+import { deleteSession, deletePersona, getActivePersonaId, getAllSessions, getSession, importSessions, listPersonas, listSessionSummaries, savePersona, searchSessions, setActivePersonaId } from './utils/db';
+import { ImportConflictStrategy, createSessionBundle, downloadBlob, parseSessionBundle, sessionToMarkdown } from './utils/export';
+import { SessionSearchQuery, toSessionSummary, tokenize } from './utils/search';
+import { DEFAULT_PERSONA_ID, createDefaultPersona, withNewTools } from './utils/persona';
+import { ITEM_EXPORT_FORMATS, ITEM_IMPORT_ACCEPT } from './utils/item-files';
+import { toggleTask } from './utils/markdown';
+import { agentLabel } from './utils/turn-taking';
+import { imageFamily } from './utils/image-versions';
+
+interface HistoryFilters {
+    text: string;
+    fromDate: string; // YYYY-MM-DD from <input type="date">
+    toDate: string;
+    hasImages: boolean;
+    hasSpreadsheets: boolean;
+    mode: 'all' | 'single' | 'dual';
+}
+
+// The hook keeps the whole transcript; the terminal only renders the tail
+const MAX_VISIBLE_LOGS = 100;
+
+const EMPTY_HISTORY_FILTERS: HistoryFilters = { text: '', fromDate: '', toDate: '', hasImages: false, hasSpreadsheets: false, mode: 'all' };
 
 const App: React.FC = () => {
     const { 
         connect, 
         disconnect, 
+        switchMode,
         connectionState, 
         logs, 
         volume,
+        agentVolumes,
         isAgentSpeaking,
+        speakingAgents,
         isScreenSharing,
         startScreenShare,
         stopScreenShare,
+        captureScreen,
         isDualMode,
+        isMicOn,
+        toggleMic,
+        startPushToTalk,
+        stopPushToTalk,
+        stopAgentSpeech,
         videoState,
         closeVideo,
         canvasItems,
         activeCanvasId,
         setActiveCanvasId,
+        updateCanvasItem,
         deleteCanvasItem,
+        restoreRevision,
+        trash,
+        restoreFromTrash,
+        purgeFromTrash,
+        lastAgentChange,
+        undoAgentChange,
+        pendingConfirmations,
+        confirmToolCall,
+        toolJobs,
+        cancelToolJob,
         triggerDownload,
-        notifications
+        importCanvasFiles,
+        editImageItem,
+        notifications,
+        notify
     } = useLiveAgent();
 
-    const [isMicOn, setIsMicOn] = useState(true);
     const [dualModeEnabled, setDualModeEnabled] = useState(false);
     const [isHistoryOpen, setIsHistoryOpen] = useState(false);
     const [isZenMode, setIsZenMode] = useState(false);
     const [isWorkspaceOpen, setIsWorkspaceOpen] = useState(false);
-    const [historySessions, setHistorySessions] = useState<SessionData[]>([]);
+    const [historySessions, setHistorySessions] = useState<SessionSummary[]>([]);
     const [selectedHistorySession, setSelectedHistorySession] = useState<SessionData | null>(null);
+    const [historyFilters, setHistoryFilters] = useState<HistoryFilters>(EMPTY_HISTORY_FILTERS);
+    const [highlightTerms, setHighlightTerms] = useState<string[]>([]);
+    const [importStrategy, setImportStrategy] = useState<ImportConflictStrategy>('merge');
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const itemImportInputRef = useRef<HTMLInputElement>(null);
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    // Manual edit of a note/routine in the workspace panel
+    const [itemDraft, setItemDraft] = useState<{ id: string; title: string; content: string } | null>(null);
+    const [historyItemId, setHistoryItemId] = useState<string | null>(null);
+    // Image the workspace "Edit" action is waiting on
+    const [imageEditSourceId, setImageEditSourceId] = useState<string | null>(null);
+    const [isTrashOpen, setIsTrashOpen] = useState(false);
+    const [personas, setPersonas] = useState<PersonaProfile[]>([]);
+    const [activePersonaId, setActivePersonaIdState] = useState<string>(DEFAULT_PERSONA_ID);
+
+    const activePersona = personas.find(p => p.id === activePersonaId) ?? personas[0] ?? createDefaultPersona();
+
+    // First run seeds the built-in profile so there is always one to edit
+    const loadPersonas = async () => {
+        let stored = await listPersonas();
+        if (stored.length === 0) {
+            await savePersona(createDefaultPersona());
+            stored = await listPersonas();
+        }
+        // Profiles saved before a tool existed get it switched on, once
+        stored = await Promise.all(stored.map(async persona => {
+            const updated = withNewTools(persona);
+            if (updated !== persona) await savePersona(updated);
+            return updated;
+        }));
+        setPersonas(stored);
+        setActivePersonaIdState((await getActivePersonaId()) ?? DEFAULT_PERSONA_ID);
+    };
 
-    // Sync dual mode state
+    useEffect(() => {
+        loadPersonas().catch(err => console.error("Failed to load personas", err));
+    }, []);
+
+    const handleSavePersona = async (persona: PersonaProfile) => {
+        try {
+            await savePersona(persona);
+            await loadPersonas();
+        } catch (e) {
+            notify('error', 'Could not save profile');
+        }
+    };
+
+    const handleDeletePersona = async (id: string) => {
+        await deletePersona(id);
+        await loadPersonas();
+    };
+
+    const handleActivatePersona = async (id: string) => {
+        await setActivePersonaId(id);
+        setActivePersonaIdState(id);
+        notify('info', `Profile: ${personas.find(p => p.id === id)?.name ?? id}`);
+    };
+
+    // Sync dual mode state; a live session switches in place and keeps its history
     useEffect(() => {
         if (connectionState === ConnectionState.CONNECTED && dualModeEnabled !== isDualMode) {
-            connect(dualModeEnabled);
+            switchMode(dualModeEnabled);
         }
-    }, [dualModeEnabled, isDualMode, connect, connectionState]);
+    }, [dualModeEnabled, isDualMode, switchMode, connectionState]);
 
     // Auto-open workspace when a new item is created
     useEffect(() => {
@@ -51,23 +158,33 @@ const App: React.FC = () => {
     }, [activeCanvasId]);
 
     const handleToggleConnection = () => {
-        if (connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.CONNECTING) {
+        if (connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.CONNECTING || connectionState === ConnectionState.RECONNECTING) {
             disconnect();
         } else {
-            connect(dualModeEnabled);
+            connect({ dualMode: dualModeEnabled, persona: activePersona });
         }
     };
 
     // Keyboard Shortcuts
     useEffect(() => {
+        // Space and Escape belong to whatever field the user is typing in
+        const isTypingTarget = (target: EventTarget | null) =>
+            target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
         const handleKeyDown = (e: KeyboardEvent) => {
+            if (isTypingTarget(e.target)) return;
             if (e.code === 'Space' && connectionState === ConnectionState.CONNECTED) {
-                if (!e.repeat) setIsMicOn(true);
+                if (!e.repeat) startPushToTalk();
+            }
+            // Cut the agent off mid-sentence
+            if (e.code === 'Escape' && connectionState === ConnectionState.CONNECTED) {
+                stopAgentSpeech();
             }
         };
         const handleKeyUp = (e: KeyboardEvent) => {
+            if (isTypingTarget(e.target)) return;
             if (e.code === 'Space' && connectionState === ConnectionState.CONNECTED) {
-                setIsMicOn(false);
+                stopPushToTalk();
             }
         };
 
@@ -77,11 +194,39 @@ const App: React.FC = () => {
             window.removeEventListener('keydown', handleKeyDown);
             window.removeEventListener('keyup', handleKeyUp);
         };
-    }, [connectionState]);
+    }, [connectionState, startPushToTalk, stopPushToTalk, stopAgentSpeech]);
 
     const loadHistory = async () => {
-        const sessions = await getAllSessions();
-        setHistorySessions(sessions);
+        const query: SessionSearchQuery = {
+            from: historyFilters.fromDate ? new Date(`${historyFilters.fromDate}T00:00:00`).getTime() : undefined,
+            to: historyFilters.toDate ? new Date(`${historyFilters.toDate}T23:59:59.999`).getTime() : undefined,
+            hasImages: historyFilters.hasImages || undefined,
+            hasSpreadsheets: historyFilters.hasSpreadsheets || undefined,
+            mode: historyFilters.mode === 'all' ? undefined : historyFilters.mode,
+        };
+        const terms = tokenize(historyFilters.text);
+
+        if (terms.length > 0) {
+            const hits = await searchSessions({ ...query, text: historyFilters.text, matchAll: true, limit: 50 });
+            setHistorySessions(hits.map(hit => toSessionSummary(hit.session)));
+        } else {
+            setHistorySessions(await listSessionSummaries(query));
+        }
+        setHighlightTerms(terms);
+    };
+
+    // Re-run the search as filters change (debounced for typing)
+    useEffect(() => {
+        if (!isHistoryOpen) return;
+        const timer = window.setTimeout(() => {
+            loadHistory().catch(err => console.error("Failed to load history", err));
+        }, 200);
+        return () => clearTimeout(timer);
+    }, [isHistoryOpen, historyFilters]);
+
+    const handleSelectSession = async (id: string) => {
+        const session = await getSession(id);
+        setSelectedHistorySession(session ?? null);
     };
 
     const handleDeleteSession = async (id: string, e: React.MouseEvent) => {
@@ -91,10 +236,53 @@ const App: React.FC = () => {
         if (selectedHistorySession?.id === id) setSelectedHistorySession(null);
     };
 
-    const toggleHistory = () => {
-        if (!isHistoryOpen) {
-            loadHistory();
+    const exportSessions = (sessions: SessionData[], fileName: string) => {
+        downloadBlob(new Blob([createSessionBundle(sessions)], { type: 'application/json' }), fileName);
+        notify('success', `Exported ${sessions.length} session${sessions.length === 1 ? '' : 's'}`);
+    };
+
+    const handleExportAll = async () => {
+        try {
+            const sessions = await getAllSessions();
+            exportSessions(sessions, `mrcrack_memory_${new Date().toISOString().slice(0, 10)}.json`);
+        } catch (e) {
+            notify('error', 'Export failed');
         }
+    };
+
+    const handleExportMarkdown = (session: SessionData) => {
+        downloadBlob(new Blob([sessionToMarkdown(session)], { type: 'text/markdown' }), `mrcrack_session_${session.id}.md`);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const sessions = parseSessionBundle(await file.text());
+            const result = await importSessions(sessions, importStrategy);
+            notify('success', `Imported: ${result.added} new, ${result.merged} merged, ${result.replaced} replaced, ${result.skipped} skipped`);
+            await loadHistory();
+        } catch (err: any) {
+            notify('error', `Import failed: ${err.message}`);
+        }
+    };
+
+    const handleImportItems = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const list = e.target.files;
+        const files: File[] = [];
+        for (let i = 0; i < (list?.length ?? 0); i++) files.push(list![i]);
+        e.target.value = '';
+        if (files.length > 0) importCanvasFiles(files);
+    };
+
+    const handleResumeSession = (session: SessionData) => {
+        setIsHistoryOpen(false);
+        setSelectedHistorySession(null);
+        connect({ dualMode: dualModeEnabled, resumeFrom: session, persona: activePersona });
+    };
+
+    const toggleHistory = () => {
         setIsHistoryOpen(!isHistoryOpen);
     };
 
@@ -103,7 +291,32 @@ const App: React.FC = () => {
         logsEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [logs]);
 
+    const visibleLogs = logs.slice(-MAX_VISIBLE_LOGS);
+    const firstVisibleLog = logs.length - visibleLogs.length;
+
     const activeItem = canvasItems.find(n => n.id === activeCanvasId);
+    const isEditingItem = !!activeItem && itemDraft?.id === activeItem.id;
+    const isTextItem = !!activeItem && activeItem.type !== 'image' && activeItem.type !== 'spreadsheet';
+    const isShowingHistory = !!activeItem && historyItemId === activeItem.id && !isEditingItem;
+    const imageVersions = activeItem?.type === 'image' ? imageFamily(canvasItems, activeItem) : [];
+
+    // `item:ID` attachments in notes point at workspace images
+    const resolveItemImage = (src: string) => src.startsWith('item:')
+        ? canvasItems.find(item => item.id === src.slice(5) && item.type === 'image')?.content
+        : undefined;
+
+    const handleEditImage = async (instruction: string, count: number) => {
+        if (!activeItem) return;
+        setImageEditSourceId(activeItem.id);
+        await editImageItem(activeItem.id, instruction, count);
+        setImageEditSourceId(null);
+    };
+
+    const handleSaveItemDraft = () => {
+        if (!itemDraft) return;
+        updateCanvasItem(itemDraft.id, { title: itemDraft.title.trim() || 'Untitled', content: itemDraft.content });
+        setItemDraft(null);
+    };
 
     const renderCanvasIcon = (type: string) => {
         switch(type) {
@@ -114,25 +327,6 @@ const App: React.FC = () => {
         }
     };
 
-    const renderSpreadsheet = (csv: string) => {
-        const rows = csv.trim().split('\n').map(row => row.split(','));
-        return (
-            <div className="overflow-x-auto">
-                <table className="min-w-full text-xs md:text-sm text-left border-collapse">
-                    <tbody>
-                        {rows.map((row, i) => (
-                            <tr key={i} className={i === 0 ? 'bg-slate-800 font-bold text-cyan-400' : 'border-b border-slate-800 hover:bg-slate-900/50'}>
-                                {row.map((cell, j) => (
-                                    <td key={j} className="p-2 border-r border-slate-800 last:border-r-0 whitespace-nowrap">{cell.trim()}</td>
-                                ))}
-                            </tr>
-                        ))}
-                    </tbody>
-                </table>
-            </div>
-        );
-    };
-
     return (
         <div className="min-h-screen bg-slate-950 flex flex-col items-center justify-between p-4 md:p-6 overflow-hidden relative font-sans text-slate-200">
             
@@ -164,6 +358,64 @@ const App: React.FC = () => {
                 ))}
             </div>
 
+            {/* Tool Confirmation Cards */}
+            {pendingConfirmations.length > 0 && (
+                <div className="fixed top-20 left-1/2 -translate-x-1/2 z-50 w-full max-w-md px-4 flex flex-col gap-2">
+                    {pendingConfirmations.map((confirmation, i) => (
+                        <div key={confirmation.id} className={`animate-in fade-in slide-in-from-top-4 duration-300 p-4 rounded-xl border shadow-2xl backdrop-blur-md bg-slate-950/90 ${confirmation.risk === 'high' ? 'border-red-500/50' : 'border-yellow-500/50'}`}>
+                            <div className={`flex items-center gap-2 text-[10px] font-bold uppercase tracking-wider mb-2 ${confirmation.risk === 'high' ? 'text-red-400' : 'text-yellow-400'}`}>
+                                <ShieldAlert size={12} /> Confirm · {agentLabel(confirmation.agent)} · {confirmation.name}
+                            </div>
+                            <div className="text-sm text-slate-200 mb-3">{confirmation.summary}</div>
+                            <div className="flex items-center gap-2">
+                                <button
+                                    onClick={() => confirmToolCall(confirmation.id, true)}
+                                    className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-green-500/50 bg-green-900/20 text-green-400 hover:bg-green-900/40 text-xs font-bold uppercase tracking-wider transition-colors"
+                                >
+                                    <Check size={12} /> Allow
+                                </button>
+                                <button
+                                    onClick={() => confirmToolCall(confirmation.id, false)}
+                                    className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-red-500/50 bg-red-900/20 text-red-400 hover:bg-red-900/40 text-xs font-bold uppercase tracking-wider transition-colors"
+                                >
+                                    <X size={12} /> Deny
+                                </button>
+                                {i === 0 && <span className="ml-auto text-[10px] text-slate-500 uppercase tracking-wider">Or say yes / no</span>}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Tool Task Queue */}
+            {toolJobs.length > 0 && (
+                <div className="fixed bottom-4 left-4 z-40 w-72 rounded-xl border border-slate-800 bg-slate-950/90 backdrop-blur-md shadow-2xl animate-in fade-in slide-in-from-bottom-4 duration-300">
+                    <div className="flex items-center gap-2 px-3 py-2 border-b border-slate-800 text-[10px] font-bold uppercase tracking-wider text-slate-400">
+                        <ListTodo size={12} className="text-cyan-400" /> Tasks · {toolJobs.length}
+                    </div>
+                    <div className="max-h-60 overflow-y-auto p-2 space-y-1">
+                        {toolJobs.map(job => (
+                            <div key={job.id} className="flex items-center gap-2 px-2 py-1.5 rounded border border-slate-800 text-xs">
+                                {job.status === 'running' && <LoaderCircle size={12} className="text-cyan-400 animate-spin" />}
+                                {job.status === 'queued' && <Clock size={12} className="text-slate-500" />}
+                                {job.status === 'confirming' && <ShieldAlert size={12} className="text-yellow-400" />}
+                                <span className="text-slate-200 truncate">{job.name}</span>
+                                <span className="text-[10px] text-slate-500 uppercase tracking-wider whitespace-nowrap">
+                                    {isDualMode ? `${agentLabel(job.agent)} · ` : ''}{job.status === 'confirming' ? 'Needs OK' : job.status}
+                                </span>
+                                <button
+                                    onClick={() => cancelToolJob(job.id)}
+                                    title="Cancel"
+                                    className="ml-auto p-1 rounded text-slate-500 hover:text-red-400 hover:bg-red-900/20 transition-colors"
+                                >
+                                    <X size={12} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Header */}
             <header className={`z-10 w-full max-w-6xl flex justify-between items-center border-b border-slate-800/50 pb-4 backdrop-blur-sm transition-opacity duration-500 ${isZenMode ? 'opacity-0 hover:opacity-100' : 'opacity-100'}`}>
                 <div className="flex items-center gap-3">
@@ -193,8 +445,30 @@ const App: React.FC = () => {
                     >
                         <Database size={14} /> Memory
                     </button>
+                    {lastAgentChange && (
+                        <button
+                            onClick={undoAgentChange}
+                            title={`Undo agent: ${lastAgentChange.label}`}
+                            className="flex items-center gap-2 px-3 py-1.5 rounded-lg border text-xs font-bold uppercase tracking-wider transition-all bg-slate-900/50 border-yellow-700/50 text-yellow-400/80 hover:border-yellow-500 hover:text-yellow-400"
+                        >
+                            <Undo2 size={14} /> <span className="hidden md:inline">Undo</span>
+                        </button>
+                    )}
+                     <button 
+                        onClick={() => setIsSettingsOpen(true)}
+                        title={`Persona: ${activePersona.name}`}
+                        className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-xs font-bold uppercase tracking-wider transition-all
+                            ${isSettingsOpen 
+                                ? 'bg-slate-800 border-cyan-500 text-cyan-400' 
+                                : 'bg-slate-900/50 border-slate-700 text-slate-400 hover:border-cyan-500/50 hover:text-cyan-400'}`}
+                    >
+                        <Settings size={14} /> <span className="hidden md:inline">{activePersona.name}</span>
+                    </button>
                     <div className="flex items-center gap-2 text-[10px] md:text-xs text-cyan-400/70 uppercase tracking-wider border border-cyan-900/50 px-3 py-1 rounded-full bg-slate-900/50">
-                        <div className={`w-1.5 h-1.5 rounded-full ${connectionState === ConnectionState.CONNECTED ? 'bg-green-500 shadow-[0_0_8px_#22c55e]' : 'bg-red-500'}`}></div>
+                        <div className={`w-1.5 h-1.5 rounded-full ${
+                            connectionState === ConnectionState.CONNECTED ? 'bg-green-500 shadow-[0_0_8px_#22c55e]' :
+                            connectionState === ConnectionState.RECONNECTING ? 'bg-yellow-500 animate-pulse' : 'bg-red-500'
+                        }`}></div>
                         {connectionState}
                     </div>
                 </div>
@@ -237,13 +511,24 @@ const App: React.FC = () => {
                         isActive={connectionState === ConnectionState.CONNECTED} 
                         isSpeaking={isAgentSpeaking}
                         isDualMode={isDualMode}
+                        agentVolumes={agentVolumes}
+                        speakingAgents={speakingAgents}
                     />
                     
                     {/* Screen Share Indicator overlay */}
                     {isScreenSharing && (
-                         <div className="absolute -top-12 left-1/2 -translate-x-1/2 flex items-center gap-2 px-3 py-1 rounded-full bg-red-500/10 border border-red-500/50 text-red-400 text-xs font-mono animate-pulse">
-                            <div className="w-1.5 h-1.5 rounded-full bg-red-500"></div>
-                            EYES ON
+                         <div className="absolute -top-12 left-1/2 -translate-x-1/2 flex items-center gap-2">
+                            <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-red-500/10 border border-red-500/50 text-red-400 text-xs font-mono animate-pulse">
+                                <div className="w-1.5 h-1.5 rounded-full bg-red-500"></div>
+                                EYES ON
+                            </div>
+                            <button
+                                onClick={captureScreen}
+                                title="Save this frame to the workspace"
+                                className="flex items-center gap-1 px-3 py-1 rounded-full bg-slate-900/80 border border-slate-700 text-slate-300 hover:text-cyan-400 hover:border-cyan-500/50 text-xs font-mono transition-colors"
+                            >
+                                <Camera size={12} /> CAPTURE
+                            </button>
                          </div>
                     )}
                 </div>
@@ -277,18 +562,18 @@ const App: React.FC = () => {
                         {logs.length === 0 && (
                             <div className="text-slate-700 italic text-center mt-10 flex flex-col items-center gap-2">
                                 <span>System Ready.</span>
-                                <span className="text-[10px] text-slate-800">Hold 'SPACE' to Talk</span>
+                                <span className="text-[10px] text-slate-800">Hold 'SPACE' to Talk · 'ESC' to Interrupt</span>
                             </div>
                         )}
-                        {logs.map((log, i) => (
-                            <div key={i} className="flex gap-3 animate-in fade-in slide-in-from-left-2 duration-200">
+                        {visibleLogs.map((log, i) => (
+                            <div key={firstVisibleLog + i} className="flex gap-3 animate-in fade-in slide-in-from-left-2 duration-200">
                                 <span className="text-slate-600 min-w-[50px] opacity-50">{log.timestamp.toLocaleTimeString([], { hour12: false, hour: '2-digit', minute:'2-digit' })}</span>
                                 <div className="flex-1 break-words">
                                     <span className={`font-bold mr-2 ${
                                         log.role === 'system' ? 'text-yellow-500/50' :
-                                        log.role === 'model' ? (isDualMode ? 'text-purple-400' : 'text-cyan-400') : 'text-white/90'
+                                        log.role === 'model' ? (log.agent === 'jack' ? 'text-purple-400' : 'text-cyan-400') : 'text-white/90'
                                     }`}>
-                                        {log.role === 'system' ? 'SYS >' : log.role === 'model' ? 'AI >' : 'ALI >'}
+                                        {log.role === 'system' ? 'SYS >' : log.role === 'model' ? `${log.agent ? log.agent.toUpperCase() : 'AI'} >` : `${activePersona.userName.toUpperCase()} >`}
                                     </span>
                                     <span className={`${log.role === 'system' ? 'text-slate-500' : 'text-slate-300'}`}>{log.text}</span>
                                 </div>
@@ -344,23 +629,24 @@ const App: React.FC = () => {
                         onClick={handleToggleConnection}
                         className={`
                             col-span-2 h-16 rounded-2xl font-bold text-base md:text-lg tracking-wider transition-all duration-300 flex items-center justify-center gap-2 md:gap-3
-                            ${connectionState === ConnectionState.CONNECTED 
+                            ${connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.RECONNECTING
                                 ? 'bg-red-500/10 border border-red-500/50 text-red-400 hover:bg-red-500/20 shadow-[0_0_20px_rgba(239,68,68,0.2)]' 
                                 : (isDualMode ? 'bg-purple-500/10 border border-purple-400 text-purple-400 hover:bg-purple-400 hover:text-slate-950 shadow-[0_0_20px_rgba(168,85,247,0.3)]' 
                                               : 'bg-cyan-500/10 border border-cyan-400 text-cyan-400 hover:bg-cyan-400 hover:text-slate-950 shadow-[0_0_20px_rgba(34,211,238,0.3)]')
                             }
                         `}
                     >
-                        <Power size={24} className={connectionState === ConnectionState.CONNECTING ? 'animate-spin' : ''} />
+                        <Power size={24} className={connectionState === ConnectionState.CONNECTING || connectionState === ConnectionState.RECONNECTING ? 'animate-spin' : ''} />
                         {connectionState === ConnectionState.DISCONNECTED && "INITIALIZE"}
                         {connectionState === ConnectionState.CONNECTING && "LOADING..."}
                         {connectionState === ConnectionState.CONNECTED && "TERMINATE"}
+                        {connectionState === ConnectionState.RECONNECTING && "RELINKING..."}
                         {connectionState === ConnectionState.ERROR && "REBOOT"}
                     </button>
 
                     {/* Mic Toggle */}
                     <button 
-                        onClick={() => setIsMicOn(!isMicOn)}
+                        onClick={toggleMic}
                         disabled={connectionState !== ConnectionState.CONNECTED}
                         className={`col-span-1 flex flex-col items-center justify-center gap-1 p-2 h-14 rounded-xl border transition-all duration-200
                             ${isMicOn 
@@ -392,10 +678,25 @@ const App: React.FC = () => {
                         )}
                         <h3 className="text-sm font-bold text-cyan-400 flex items-center gap-2">
                             <LayoutGrid size={16} />
-                            WORKSPACE {activeItem ? `// ${activeItem.type.toUpperCase()}` : '// INDEX'}
+                            WORKSPACE {activeItem ? `// ${activeItem.type.toUpperCase()}` : isTrashOpen ? '// TRASH' : '// INDEX'}
                         </h3>
                     </div>
-                    <button onClick={() => setIsWorkspaceOpen(false)} className="text-slate-400 hover:text-white"><X size={18} /></button>
+                    <div className="flex items-center gap-3">
+                        {!activeItem && (
+                            <button onClick={() => itemImportInputRef.current?.click()} title="Import CSV, XLSX or Markdown" className="text-slate-400 hover:text-cyan-400 transition-colors"><Upload size={16} /></button>
+                        )}
+                        {!activeItem && (
+                            <button
+                                onClick={() => setIsTrashOpen(!isTrashOpen)}
+                                title={isTrashOpen ? 'Back to workspace' : 'Trash'}
+                                className={`flex items-center gap-1 text-xs transition-colors ${isTrashOpen ? 'text-red-400' : 'text-slate-400 hover:text-red-400'}`}
+                            >
+                                <Trash2 size={16} />{trash.length > 0 && trash.length}
+                            </button>
+                        )}
+                        <button onClick={() => setIsWorkspaceOpen(false)} className="text-slate-400 hover:text-white"><X size={18} /></button>
+                    </div>
+                    <input ref={itemImportInputRef} type="file" multiple accept={ITEM_IMPORT_ACCEPT} onChange={handleImportItems} className="hidden" />
                 </div>
                 
                 {/* Panel Content */}
@@ -403,21 +704,76 @@ const App: React.FC = () => {
                     {activeItem ? (
                         /* Detail View */
                         <>
-                            <h2 className="text-xl font-bold text-slate-100 mb-4">{activeItem.title}</h2>
+                            {isEditingItem ? (
+                                <input
+                                    value={itemDraft!.title}
+                                    onChange={e => setItemDraft({ ...itemDraft!, title: e.target.value })}
+                                    className="w-full mb-4 bg-slate-900 border border-slate-800 rounded px-2 py-1 text-xl font-bold text-slate-100 outline-none focus:border-cyan-500/50"
+                                />
+                            ) : (
+                                <h2 className="text-xl font-bold text-slate-100 mb-4">{activeItem.title}</h2>
+                            )}
                             
                             {/* Render Content Based on Type */}
-                            {activeItem.type === 'image' ? (
-                                <div className="rounded-lg overflow-hidden border border-slate-800 shadow-lg">
-                                    <img src={activeItem.content} alt={activeItem.title} className="w-full h-auto object-cover" />
+                            {isShowingHistory ? (
+                                <ItemHistory
+                                    item={activeItem}
+                                    onRestore={index => {
+                                        restoreRevision(activeItem.id, index);
+                                        setHistoryItemId(null);
+                                    }}
+                                />
+                            ) : activeItem.type === 'image' ? (
+                                <div className="space-y-4">
+                                    <div className="rounded-lg overflow-hidden border border-slate-800 shadow-lg">
+                                        <img src={activeItem.content} alt={activeItem.title} className="w-full h-auto object-cover" />
+                                    </div>
+                                    <ImageEditBar busy={imageEditSourceId !== null} onSubmit={handleEditImage} />
+                                    {imageVersions.length > 1 && (
+                                        <ImageVersions versions={imageVersions} activeId={activeItem.id} onSelect={setActiveCanvasId} />
+                                    )}
                                 </div>
                             ) : activeItem.type === 'spreadsheet' ? (
-                                renderSpreadsheet(activeItem.content)
+                                <Spreadsheet csv={activeItem.content} onChange={csv => updateCanvasItem(activeItem.id, { content: csv })} />
+                            ) : isEditingItem ? (
+                                <textarea
+                                    value={itemDraft!.content}
+                                    onChange={e => setItemDraft({ ...itemDraft!, content: e.target.value })}
+                                    className="w-full h-[60vh] bg-slate-900 border border-slate-800 rounded p-3 text-sm text-slate-300 font-mono outline-none focus:border-cyan-500/50 resize-none"
+                                />
                             ) : (
-                                <div className="prose prose-invert prose-sm text-slate-300 whitespace-pre-wrap font-mono">
-                                    {activeItem.content}
-                                </div>
+                                <Markdown
+                                    text={activeItem.content}
+                                    onToggleTask={line => updateCanvasItem(activeItem.id, { content: toggleTask(activeItem.content, line) })}
+                                    resolveImage={resolveItemImage}
+                                />
                             )}
                         </>
+                    ) : isTrashOpen ? (
+                        /* Trash View */
+                        <div className="grid gap-3">
+                            {trash.length === 0 ? (
+                                <div className="text-slate-600 text-center italic mt-10">Trash is empty.</div>
+                            ) : (
+                                <>
+                                    {trash.map(item => (
+                                        <div key={item.id} className="p-4 bg-slate-900 border border-slate-800 rounded-lg flex items-center gap-3">
+                                            <div className="min-w-0 flex-1">
+                                                <div className="flex items-center gap-2 font-bold text-slate-300 mb-1 truncate">
+                                                    {renderCanvasIcon(item.type)} {item.title}
+                                                </div>
+                                                <div className="text-xs text-slate-500 font-mono uppercase">
+                                                    Deleted by {item.deletedBy === 'agent' ? 'agent' : 'you'} · {item.deletedAt?.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
+                                                </div>
+                                            </div>
+                                            <button onClick={() => restoreFromTrash(item.id)} title="Restore" className="p-2 rounded bg-cyan-900/20 hover:bg-cyan-900/40 text-cyan-400 transition-colors"><ArchiveRestore size={14} /></button>
+                                            <button onClick={() => purgeFromTrash(item.id)} title="Delete forever" className="p-2 rounded bg-red-900/20 hover:bg-red-900/40 text-red-400 transition-colors"><Trash size={14} /></button>
+                                        </div>
+                                    ))}
+                                    <button onClick={() => purgeFromTrash()} className="text-xs text-red-400/80 hover:text-red-400 uppercase font-bold tracking-wider">Empty trash</button>
+                                </>
+                            )}
+                        </div>
                     ) : (
                         /* List View */
                         <div className="grid gap-3">
@@ -441,7 +797,23 @@ const App: React.FC = () => {
                 </div>
                 
                 {/* Panel Footer (Actions) - Only in Detail View */}
-                {activeItem && (
+                {activeItem && isEditingItem && (
+                    <div className="p-4 border-t border-slate-800 bg-slate-900 flex gap-2">
+                        <button
+                            onClick={handleSaveItemDraft}
+                            className="flex-1 flex items-center justify-center gap-2 py-2 rounded bg-cyan-900/30 hover:bg-cyan-900/50 text-cyan-400 text-sm font-bold transition-colors border border-cyan-800/50"
+                        >
+                            <Save size={14} /> Save
+                        </button>
+                        <button
+                            onClick={() => setItemDraft(null)}
+                            className="px-4 py-2 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm font-medium transition-colors"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                )}
+                {activeItem && !isEditingItem && (
                     <div className="p-4 border-t border-slate-800 bg-slate-900 flex gap-2">
                          <button 
                             onClick={() => triggerDownload(activeItem)}
@@ -449,7 +821,35 @@ const App: React.FC = () => {
                         >
                             <Download size={14} /> Download
                         </button>
-                        {activeItem.type !== 'image' && activeItem.type !== 'spreadsheet' && (
+                        {ITEM_EXPORT_FORMATS[activeItem.type].slice(1).map(format => (
+                            <button
+                                key={format}
+                                onClick={() => triggerDownload(activeItem, format)}
+                                title={`Download as ${format.toUpperCase()}`}
+                                className="px-3 py-2 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs font-bold uppercase transition-colors"
+                            >
+                                {format}
+                            </button>
+                        ))}
+                        {activeItem.type !== 'image' && (
+                            <button
+                                onClick={() => setHistoryItemId(isShowingHistory ? null : activeItem.id)}
+                                title="History"
+                                className={`px-4 py-2 rounded text-sm font-medium transition-colors ${isShowingHistory ? 'bg-cyan-900/40 text-cyan-400' : 'bg-slate-800 hover:bg-slate-700 text-slate-300'}`}
+                            >
+                                <History size={14} />
+                            </button>
+                        )}
+                        {isTextItem && (
+                            <button
+                                onClick={() => setItemDraft({ id: activeItem.id, title: activeItem.title, content: activeItem.content })}
+                                title="Edit"
+                                className="px-4 py-2 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm font-medium transition-colors"
+                            >
+                                <Pencil size={14} />
+                            </button>
+                        )}
+                        {isTextItem && (
                             <button 
                                 onClick={() => navigator.clipboard.writeText(`${activeItem.title}\n\n${activeItem.content}`)}
                                 className="px-4 py-2 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm font-medium transition-colors"
@@ -467,6 +867,19 @@ const App: React.FC = () => {
                 )}
             </div>
 
+            {/* MODAL: PERSONA SETTINGS */}
+            {isSettingsOpen && (
+                <PersonaSettings
+                    personas={personas}
+                    activeId={activePersona.id}
+                    isConnected={connectionState === ConnectionState.CONNECTED}
+                    onSave={handleSavePersona}
+                    onDelete={handleDeletePersona}
+                    onActivate={handleActivatePersona}
+                    onClose={() => setIsSettingsOpen(false)}
+                />
+            )}
+
             {/* MODAL: HISTORY MEMORY */}
             {isHistoryOpen && (
                 <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
@@ -478,7 +891,70 @@ const App: React.FC = () => {
                                 <h3 className="font-bold text-cyan-400 text-sm tracking-wider flex items-center gap-2">
                                     <Database size={14} /> MEMORY BANKS
                                 </h3>
-                                <button onClick={toggleHistory} className="md:hidden text-slate-400"><X size={16} /></button>
+                                <div className="flex items-center gap-2">
+                                    <button onClick={handleExportAll} title="Export all sessions" className="text-slate-500 hover:text-cyan-400 transition-colors"><Download size={14} /></button>
+                                    <button onClick={() => importInputRef.current?.click()} title="Import sessions" className="text-slate-500 hover:text-cyan-400 transition-colors"><Upload size={14} /></button>
+                                    <select
+                                        value={importStrategy}
+                                        onChange={e => setImportStrategy(e.target.value as ImportConflictStrategy)}
+                                        title="When an imported session already exists"
+                                        className="bg-slate-950 border border-slate-800 rounded text-[10px] text-slate-400 px-1 py-0.5"
+                                    >
+                                        <option value="merge">Merge</option>
+                                        <option value="replace">Replace</option>
+                                        <option value="skip">Skip</option>
+                                    </select>
+                                    <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+                                    <button onClick={toggleHistory} className="md:hidden text-slate-400"><X size={16} /></button>
+                                </div>
+                            </div>
+
+                            {/* Search & Filters */}
+                            <div className="p-3 border-b border-slate-800 space-y-2">
+                                <div className="flex items-center gap-2 px-2 py-1.5 rounded-lg bg-slate-950 border border-slate-800 focus-within:border-cyan-500/50">
+                                    <Search size={12} className="text-slate-500" />
+                                    <input
+                                        type="text"
+                                        value={historyFilters.text}
+                                        onChange={e => setHistoryFilters({ ...historyFilters, text: e.target.value })}
+                                        placeholder="Search memory..."
+                                        className="flex-1 bg-transparent text-xs text-slate-200 placeholder-slate-600 outline-none"
+                                    />
+                                </div>
+                                <div className="flex gap-2">
+                                    <input
+                                        type="date"
+                                        value={historyFilters.fromDate}
+                                        onChange={e => setHistoryFilters({ ...historyFilters, fromDate: e.target.value })}
+                                        className="flex-1 min-w-0 bg-slate-950 border border-slate-800 rounded px-1 py-1 text-[10px] text-slate-400 font-mono"
+                                    />
+                                    <input
+                                        type="date"
+                                        value={historyFilters.toDate}
+                                        onChange={e => setHistoryFilters({ ...historyFilters, toDate: e.target.value })}
+                                        className="flex-1 min-w-0 bg-slate-950 border border-slate-800 rounded px-1 py-1 text-[10px] text-slate-400 font-mono"
+                                    />
+                                </div>
+                                <div className="flex flex-wrap gap-1.5 text-[10px] font-bold uppercase tracking-wider">
+                                    {([['hasImages', 'Images'], ['hasSpreadsheets', 'Sheets']] as const).map(([key, label]) => (
+                                        <button
+                                            key={key}
+                                            onClick={() => setHistoryFilters({ ...historyFilters, [key]: !historyFilters[key] })}
+                                            className={`px-2 py-1 rounded border transition-colors ${historyFilters[key] ? 'border-cyan-500/50 bg-cyan-900/20 text-cyan-400' : 'border-slate-800 text-slate-500 hover:text-slate-300'}`}
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                    {(['all', 'single', 'dual'] as const).map(mode => (
+                                        <button
+                                            key={mode}
+                                            onClick={() => setHistoryFilters({ ...historyFilters, mode })}
+                                            className={`px-2 py-1 rounded border transition-colors ${historyFilters.mode === mode ? 'border-purple-500/50 bg-purple-900/20 text-purple-400' : 'border-slate-800 text-slate-500 hover:text-slate-300'}`}
+                                        >
+                                            {mode}
+                                        </button>
+                                    ))}
+                                </div>
                             </div>
                             <div className="flex-1 overflow-y-auto">
                                 {historySessions.length === 0 ? (
@@ -487,7 +963,7 @@ const App: React.FC = () => {
                                     historySessions.map(session => (
                                         <div 
                                             key={session.id}
-                                            onClick={() => setSelectedHistorySession(session)}
+                                            onClick={() => handleSelectSession(session.id)}
                                             className={`p-4 border-b border-slate-800/50 cursor-pointer hover:bg-slate-800/50 transition-colors group relative ${selectedHistorySession?.id === session.id ? 'bg-cyan-900/10 border-l-2 border-l-cyan-500' : ''}`}
                                         >
                                             <div className="flex justify-between items-start mb-1">
@@ -495,11 +971,12 @@ const App: React.FC = () => {
                                                 <button onClick={(e) => handleDeleteSession(session.id, e)} className="text-slate-700 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"><Trash size={12} /></button>
                                             </div>
                                             <div className="text-sm font-medium text-slate-300 truncate">
-                                                {session.canvasItems.length > 0 ? `💾 ${session.canvasItems[0].title}` : (session.logs.find(l => l.role === 'user')?.text || 'Untitled Session')}
+                                                {session.itemCount > 0 ? `💾 ${session.title}` : session.title}
                                             </div>
                                             <div className="text-[10px] text-slate-500 mt-1 flex gap-2">
                                                 <span className="flex items-center gap-1"><Clock size={10} /> {new Date(session.startTime).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
-                                                <span className="flex items-center gap-1">{session.logs.length} msgs</span>
+                                                <span className="flex items-center gap-1">{session.messageCount} msgs</span>
+                                                {session.isDualMode && <span className="text-purple-400/70">DUAL</span>}
                                             </div>
                                         </div>
                                     ))
@@ -519,6 +996,26 @@ const App: React.FC = () => {
                                             <span>ID: {selectedHistorySession.id}</span>
                                             <span>Duration: {selectedHistorySession.endTime ? Math.round((selectedHistorySession.endTime - selectedHistorySession.startTime)/1000) + 's' : 'Unknown'}</span>
                                         </div>
+                                        <button 
+                                            onClick={() => handleResumeSession(selectedHistorySession)}
+                                            className="mt-4 flex items-center gap-2 px-3 py-1.5 rounded-lg border border-cyan-500/50 bg-cyan-900/20 text-cyan-400 hover:bg-cyan-900/40 text-xs font-bold uppercase tracking-wider transition-colors"
+                                        >
+                                            <Play size={12} /> Continue this session
+                                        </button>
+                                        <div className="mt-2 flex gap-2">
+                                            <button 
+                                                onClick={() => exportSessions([selectedHistorySession], `mrcrack_session_${selectedHistorySession.id}.json`)}
+                                                className="flex items-center gap-1 px-2 py-1 rounded border border-slate-700 text-slate-400 hover:text-cyan-400 hover:border-cyan-500/50 text-[10px] font-bold uppercase tracking-wider transition-colors"
+                                            >
+                                                <FileDown size={12} /> JSON
+                                            </button>
+                                            <button 
+                                                onClick={() => handleExportMarkdown(selectedHistorySession)}
+                                                className="flex items-center gap-1 px-2 py-1 rounded border border-slate-700 text-slate-400 hover:text-cyan-400 hover:border-cyan-500/50 text-[10px] font-bold uppercase tracking-wider transition-colors"
+                                            >
+                                                <FileDown size={12} /> Markdown
+                                            </button>
+                                        </div>
                                     </div>
                                     
                                     <div className="flex-1 overflow-y-auto p-6 space-y-6">
@@ -531,12 +1028,12 @@ const App: React.FC = () => {
                                                     {selectedHistorySession.canvasItems.map(item => (
                                                         <div key={item.id} className="bg-slate-900 border border-slate-800 rounded p-4">
                                                             <div className="flex items-center gap-2 font-bold text-slate-200 mb-2">
-                                                                {renderCanvasIcon(item.type)} {item.title}
+                                                                {renderCanvasIcon(item.type)} <Highlight text={item.title} terms={highlightTerms} />
                                                             </div>
                                                             {item.type === 'image' ? (
                                                                 <img src={item.content} alt={item.title} className="w-32 h-24 object-cover rounded" />
                                                             ) : (
-                                                                <div className="text-sm text-slate-400 whitespace-pre-wrap font-mono">{item.content}</div>
+                                                                <div className="text-sm text-slate-400 whitespace-pre-wrap font-mono"><Highlight text={item.content} terms={highlightTerms} /></div>
                                                             )}
                                                         </div>
                                                     ))}
@@ -551,9 +1048,9 @@ const App: React.FC = () => {
                                                 {selectedHistorySession.logs.map((log, i) => (
                                                     <div key={i} className="flex gap-3">
                                                         <span className={`font-bold min-w-[60px] ${log.role === 'user' ? 'text-cyan-400' : log.role === 'model' ? 'text-purple-400' : 'text-slate-500'}`}>
-                                                            {log.role.toUpperCase()}
+                                                            {log.agent ? log.agent.toUpperCase() : log.role.toUpperCase()}
                                                         </span>
-                                                        <span className="text-slate-300">{log.text}</span>
+                                                        <span className="text-slate-300"><Highlight text={log.text} terms={highlightTerms} /></span>
                                                     </div>
                                                 ))}
                                             </div>
@@ -0,0 +1,26 @@
+import React from 'react';
+
+interface HighlightProps {
+    text: string;
+    terms: string[];
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Wraps every occurrence of the search terms in <mark>, case-insensitively
+export const Highlight: React.FC<HighlightProps> = ({ text, terms }) => {
+    if (terms.length === 0 || !text) return <>{text}</>;
+
+    const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+    const parts = text.split(pattern);
+
+    return (
+        <>
+            {parts.map((part, i) =>
+                i % 2 === 1
+                    ? <mark key={i} className="bg-yellow-500/30 text-yellow-200 rounded px-0.5">{part}</mark>
+                    : <React.Fragment key={i}>{part}</React.Fragment>
+            )}
+        </>
+    );
+};
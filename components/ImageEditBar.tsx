@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { LoaderCircle, WandSparkles } from 'lucide-react';
+import { MAX_VARIATIONS } from '../utils/image-model';
+
+interface ImageEditBarProps {
+    busy: boolean;
+    onSubmit: (instruction: string, count: number) => void;
+}
+
+// "Make the text bigger" plus how many variations to make; results become new linked versions
+export const ImageEditBar: React.FC<ImageEditBarProps> = ({ busy, onSubmit }) => {
+    const [instruction, setInstruction] = useState('');
+    const [count, setCount] = useState(1);
+
+    const submit = () => {
+        if (!instruction.trim() || busy) return;
+        onSubmit(instruction.trim(), count);
+        setInstruction('');
+    };
+
+    return (
+        <div className="flex items-center gap-2">
+            <input
+                value={instruction}
+                onChange={e => setInstruction(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && submit()}
+                placeholder="Describe a change, e.g. make the text bigger"
+                disabled={busy}
+                className="flex-1 min-w-0 bg-slate-900 border border-slate-800 rounded px-2 py-1.5 text-xs text-slate-200 outline-none focus:border-cyan-500/50 disabled:opacity-50"
+            />
+            <select
+                value={count}
+                onChange={e => setCount(Number(e.target.value))}
+                disabled={busy}
+                title="Variations"
+                className="bg-slate-900 border border-slate-800 rounded px-1 py-1.5 text-xs text-slate-300 outline-none"
+            >
+                {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map(n => (
+                    <option key={n} value={n}>{n === 1 ? '1 version' : `${n} variations`}</option>
+                ))}
+            </select>
+            <button
+                onClick={submit}
+                disabled={busy || !instruction.trim()}
+                className="flex items-center gap-1 px-3 py-1.5 rounded border border-cyan-500/50 text-cyan-400 hover:bg-cyan-900/30 disabled:opacity-30 disabled:hover:bg-transparent text-xs font-bold uppercase tracking-wider transition-colors"
+            >
+                {busy ? <LoaderCircle size={12} className="animate-spin" /> : <WandSparkles size={12} />} Edit
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,30 @@
+import React from 'react';
+import { CanvasItem } from '../types';
+
+interface ImageVersionsProps {
+    versions: CanvasItem[];
+    activeId: string;
+    onSelect: (id: string) => void;
+}
+
+// Thumbnail grid of an image, its edits and variations; the open one is outlined
+export const ImageVersions: React.FC<ImageVersionsProps> = ({ versions, activeId, onSelect }) => (
+    <div>
+        <div className="text-[10px] font-bold uppercase tracking-wider text-slate-500 mb-2">Versions · {versions.length}</div>
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+            {versions.map((version, i) => (
+                <button
+                    key={version.id}
+                    onClick={() => onSelect(version.id)}
+                    title={version.title}
+                    className={`rounded-lg overflow-hidden border text-left transition-colors ${version.id === activeId ? 'border-cyan-500 shadow-[0_0_10px_rgba(34,211,238,0.3)]' : 'border-slate-800 hover:border-cyan-500/50'}`}
+                >
+                    <img src={version.content} alt={version.title} className="w-full aspect-video object-cover bg-slate-900" />
+                    <div className="px-2 py-1 text-[10px] text-slate-400 truncate">
+                        {i === 0 && !version.sourceId ? 'Original' : version.title}
+                    </div>
+                </button>
+            ))}
+        </div>
+    </div>
+);
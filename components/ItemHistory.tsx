@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Bot, RotateCcw, User } from 'lucide-react';
+import { CanvasItem } from '../types';
+import { diffLines, itemRevisions } from '../utils/revisions';
+
+interface ItemHistoryProps {
+    item: CanvasItem;
+    onRestore: (index: number) => void;
+}
+
+const LINE_CLASSES = {
+    same: 'text-slate-500',
+    added: 'bg-green-900/20 text-green-300',
+    removed: 'bg-red-900/20 text-red-300 line-through decoration-red-500/40',
+};
+
+const LINE_MARKERS = { same: ' ', added: '+', removed: '-' };
+
+// Version list (newest first) and what the selected version changed compared to the one before it
+export const ItemHistory: React.FC<ItemHistoryProps> = ({ item, onRestore }) => {
+    const revisions = itemRevisions(item);
+    const latest = revisions.length - 1;
+    const [selected, setSelected] = useState(latest);
+
+    const index = Math.min(selected, latest);
+    const revision = revisions[index];
+    const previous = revisions[index - 1];
+    const diff = diffLines(previous?.content ?? '', revision.content);
+
+    return (
+        <div className="space-y-4">
+            <div className="space-y-1">
+                {revisions.map((_, i) => latest - i).map(i => {
+                    const entry = revisions[i];
+                    return (
+                        <button
+                            key={i}
+                            onClick={() => setSelected(i)}
+                            className={`w-full flex items-center gap-2 px-3 py-2 rounded border text-left text-xs transition-colors ${i === index ? 'border-cyan-500/50 bg-cyan-900/10' : 'border-slate-800 hover:bg-slate-900'}`}
+                        >
+                            {entry.author === 'agent' ? <Bot size={12} className="text-cyan-400" /> : <User size={12} className="text-green-400" />}
+                            <span className="font-bold uppercase tracking-wider text-[10px] text-slate-400">{entry.author === 'agent' ? 'Agent' : 'You'}</span>
+                            <span className="text-slate-300 truncate">{entry.title}</span>
+                            <span className="ml-auto text-slate-600 font-mono whitespace-nowrap">
+                                {i === latest ? 'Current' : entry.timestamp.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                            </span>
+                        </button>
+                    );
+                })}
+            </div>
+
+            <div>
+                <div className="flex items-center justify-between mb-2">
+                    <span className="text-[10px] font-bold uppercase tracking-wider text-slate-500">
+                        {previous ? `Changes in version ${index + 1}` : 'First version'}
+                    </span>
+                    <button
+                        onClick={() => onRestore(index)}
+                        disabled={index === latest}
+                        className="flex items-center gap-1 px-2 py-1 rounded border border-cyan-500/50 text-cyan-400 hover:bg-cyan-900/30 disabled:opacity-30 disabled:hover:bg-transparent text-[10px] font-bold uppercase tracking-wider transition-colors"
+                    >
+                        <RotateCcw size={10} /> Restore this version
+                    </button>
+                </div>
+                {previous && previous.title !== revision.title && (
+                    <div className="text-xs mb-2 font-mono">
+                        <span className="text-red-300 line-through">{previous.title}</span> → <span className="text-green-300">{revision.title}</span>
+                    </div>
+                )}
+                <pre className="rounded border border-slate-800 bg-slate-900 p-2 text-xs font-mono overflow-x-auto">
+                    {diff.map((line, i) => (
+                        <div key={i} className={LINE_CLASSES[line.kind]}>
+                            {LINE_MARKERS[line.kind]} {line.text || ' '}
+                        </div>
+                    ))}
+                </pre>
+            </div>
+        </div>
+    );
+};
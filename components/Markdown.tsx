@@ -0,0 +1,117 @@
+import React from 'react';
+import { CheckSquare, Square } from 'lucide-react';
+import { MarkdownBlock, parseMarkdown } from '../utils/markdown';
+
+interface MarkdownProps {
+    text: string;
+    // Called with the source line of a clicked task box; without it boxes are read-only
+    onToggleTask?: (line: number) => void;
+    // Data URL for an `![caption](item:ID)` attachment; unresolved ones show their caption
+    resolveImage?: (src: string) => string | undefined;
+}
+
+// `code`, **bold**, *italic* / _italic_, ~~strike~~, [links](https://...) and ![images](item:ID)
+const INLINE = /(`[^`]+`|\*\*[^*]+\*\*|__[^_]+__|~~[^~]+~~|\*[^*\s][^*]*\*|_[^_\s][^_]*_|!\[[^\]]*\]\([^)\s]+\)|\[[^\]]+\]\([^)\s]+\))/g;
+
+const renderInline = (text: string, resolveImage?: MarkdownProps['resolveImage']): React.ReactNode[] =>
+    text.split(INLINE).map((part, i) => {
+        if (i % 2 === 0) return part;
+        if (part.startsWith('![')) {
+            const match = /^!\[([^\]]*)\]\(([^)\s]+)\)$/.exec(part)!;
+            // Only workspace images; remote URLs would load without the user asking
+            const src = resolveImage?.(match[2]);
+            return src
+                ? <img key={i} src={src} alt={match[1]} title={match[1]} className="block max-w-full rounded border border-slate-800 my-2" />
+                : <span key={i} className="text-slate-500 italic">[image: {match[1] || match[2]}]</span>;
+        }
+        if (part.startsWith('`')) return <code key={i} className="px-1 rounded bg-slate-800 text-cyan-300 font-mono text-[0.9em]">{part.slice(1, -1)}</code>;
+        if (part.startsWith('**') || part.startsWith('__')) return <strong key={i} className="text-slate-100">{renderInline(part.slice(2, -2), resolveImage)}</strong>;
+        if (part.startsWith('~~')) return <del key={i}>{renderInline(part.slice(2, -2), resolveImage)}</del>;
+        if (part.startsWith('[')) {
+            const match = /^\[([^\]]+)\]\(([^)\s]+)\)$/.exec(part)!;
+            // Only plain web links; anything else (javascript: etc.) stays text
+            return /^https?:\/\//i.test(match[2])
+                ? <a key={i} href={match[2]} target="_blank" rel="noopener noreferrer" className="text-cyan-400 underline hover:text-cyan-300">{match[1]}</a>
+                : match[1];
+        }
+        return <em key={i}>{renderInline(part.slice(1, -1), resolveImage)}</em>;
+    });
+
+const HEADING_CLASSES = [
+    'text-lg font-bold text-cyan-400',
+    'text-base font-bold text-cyan-400',
+    'text-sm font-bold text-slate-100',
+    'text-sm font-semibold text-slate-200',
+];
+
+export const Markdown: React.FC<MarkdownProps> = ({ text, onToggleTask, resolveImage }) => {
+    const inline = (source: string) => renderInline(source, resolveImage);
+
+    const renderBlock = (block: MarkdownBlock, key: number) => {
+        switch (block.kind) {
+            case 'heading':
+                return React.createElement(`h${block.level}`, { key, className: `${HEADING_CLASSES[Math.min(block.level, 4) - 1]} mt-4 first:mt-0` }, inline(block.text));
+            case 'paragraph':
+                return <p key={key}>{inline(block.text)}</p>;
+            case 'code':
+                return (
+                    <pre key={key} className="p-3 rounded bg-slate-900 border border-slate-800 overflow-x-auto text-xs font-mono text-slate-300">
+                        <code>{block.text}</code>
+                    </pre>
+                );
+            case 'quote':
+                return <blockquote key={key} className="border-l-2 border-cyan-500/50 pl-3 text-slate-400 italic whitespace-pre-wrap">{inline(block.text)}</blockquote>;
+            case 'rule':
+                return <hr key={key} className="border-slate-800" />;
+            case 'table':
+                return (
+                    <div key={key} className="overflow-x-auto">
+                        <table className="min-w-full text-xs text-left border-collapse">
+                            <thead>
+                                <tr className="bg-slate-800 font-bold text-cyan-400">
+                                    {block.header.map((cell, c) => <th key={c} className="p-2 border-r border-slate-700 last:border-r-0">{inline(cell)}</th>)}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {block.rows.map((row, r) => (
+                                    <tr key={r} className="border-b border-slate-800">
+                                        {block.header.map((_, c) => <td key={c} className="p-2 border-r border-slate-800 last:border-r-0">{inline(row[c] ?? '')}</td>)}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                );
+            case 'list': {
+                const ListTag = block.ordered ? 'ol' : 'ul';
+                return (
+                    <ListTag key={key} className={`space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'} pl-5`}>
+                        {block.items.map((item, j) => {
+                            const indent = { marginLeft: `${item.depth * 1.25}rem` };
+                            if (!item.task) return <li key={j} style={indent}>{inline(item.text)}</li>;
+                            const { checked, line } = item.task;
+                            return (
+                                <li key={j} style={indent} className="list-none -ml-5 flex items-start gap-2">
+                                    <button
+                                        onClick={() => onToggleTask?.(line)}
+                                        disabled={!onToggleTask}
+                                        className={`mt-0.5 shrink-0 transition-colors ${checked ? 'text-green-400' : 'text-slate-500 hover:text-cyan-400'}`}
+                                    >
+                                        {checked ? <CheckSquare size={14} /> : <Square size={14} />}
+                                    </button>
+                                    <span className={checked ? 'line-through text-slate-500' : ''}>{inline(item.text)}</span>
+                                </li>
+                            );
+                        })}
+                    </ListTag>
+                );
+            }
+        }
+    };
+
+    return (
+        <div className="space-y-3 text-sm text-slate-300 leading-relaxed break-words">
+            {parseMarkdown(text).map(renderBlock)}
+        </div>
+    );
+};
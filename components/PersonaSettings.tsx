@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Plus, Save, Settings, Trash, X } from 'lucide-react';
+import { DualAgentId, LanguageStyle, PersonaProfile, PersonaTone } from '../types';
+import { AVAILABLE_TOOLS, DEFAULT_PERSONA_ID, GATED_TOOLS, PERSONA_TONES, PREBUILT_VOICES, SPEECH_LANGUAGES, createDefaultPersona, personaSpeech } from '../utils/persona';
+
+interface PersonaSettingsProps {
+    personas: PersonaProfile[];
+    activeId: string;
+    isConnected: boolean;
+    onSave: (persona: PersonaProfile) => void;
+    onDelete: (id: string) => void;
+    onActivate: (id: string) => void;
+    onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-950 border border-slate-800 rounded px-2 py-1.5 text-xs text-slate-200 outline-none focus:border-cyan-500/50';
+const labelClass = 'block text-[10px] font-bold uppercase tracking-wider text-slate-500 mb-1';
+
+const DUAL_AGENTS: { id: DualAgentId; label: string }[] = [
+    { id: 'crack', label: 'Crack voice' },
+    { id: 'jack', label: 'Jack voice' },
+];
+
+const voiceOptions = PREBUILT_VOICES.map(voice => <option key={voice.name} value={voice.name}>{voice.name} ({voice.description})</option>);
+
+// Profile list on the left, editor for the selected profile on the right
+export const PersonaSettings: React.FC<PersonaSettingsProps> = ({ personas, activeId, isConnected, onSave, onDelete, onActivate, onClose }) => {
+    const [selectedId, setSelectedId] = useState(activeId);
+    const [draft, setDraft] = useState<PersonaProfile | null>(null);
+
+    // Reset the editor whenever another profile is picked (or the stored one changes)
+    useEffect(() => {
+        setDraft(personas.find(p => p.id === selectedId) ?? personas[0] ?? null);
+    }, [selectedId, personas]);
+
+    const handleNew = () => {
+        const persona: PersonaProfile = {
+            ...createDefaultPersona(),
+            id: Date.now().toString(),
+            name: 'New Profile',
+        };
+        onSave(persona);
+        setSelectedId(persona.id);
+    };
+
+    const toggleTool = (name: string) => {
+        if (!draft) return;
+        const enabledTools = draft.enabledTools.includes(name)
+            ? draft.enabledTools.filter(tool => tool !== name)
+            : [...draft.enabledTools, name];
+        setDraft({ ...draft, enabledTools });
+    };
+
+    const toggleAutoApprove = (name: string) => {
+        if (!draft) return;
+        const current = draft.autoApproveTools ?? [];
+        const autoApproveTools = current.includes(name) ? current.filter(tool => tool !== name) : [...current, name];
+        setDraft({ ...draft, autoApproveTools });
+    };
+
+    const setDualVoice = (agent: DualAgentId, voice: string) => {
+        if (!draft) return;
+        setDraft({ ...draft, dualVoices: { ...personaSpeech(draft).dualVoices, [agent]: voice } });
+    };
+
+    const isDirty = !!draft && draft !== personas.find(p => p.id === draft.id);
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+            <div className="bg-slate-950 border border-slate-800 w-full max-w-3xl h-[80vh] rounded-2xl shadow-2xl flex overflow-hidden">
+
+                {/* Sidebar: Profiles */}
+                <div className="w-1/3 border-r border-slate-800 flex flex-col bg-slate-900/50">
+                    <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+                        <h3 className="font-bold text-cyan-400 text-sm tracking-wider flex items-center gap-2">
+                            <Settings size={14} /> PERSONAS
+                        </h3>
+                        <button onClick={handleNew} title="New profile" className="text-slate-500 hover:text-cyan-400 transition-colors"><Plus size={14} /></button>
+                    </div>
+                    <div className="flex-1 overflow-y-auto">
+                        {personas.map(persona => (
+                            <div
+                                key={persona.id}
+                                onClick={() => setSelectedId(persona.id)}
+                                className={`p-4 border-b border-slate-800/50 cursor-pointer hover:bg-slate-800/50 transition-colors ${draft?.id === persona.id ? 'bg-cyan-900/10 border-l-2 border-l-cyan-500' : ''}`}
+                            >
+                                <div className="text-sm font-medium text-slate-300 truncate flex items-center gap-2">
+                                    {persona.name}
+                                    {persona.id === activeId && <span className="text-[10px] text-green-400 font-bold uppercase tracking-wider">Active</span>}
+                                </div>
+                                <div className="text-[10px] text-slate-500 mt-1">
+                                    {persona.userName} · {persona.languageStyle} · {persona.voice}{persona.languageCode ? ` · ${persona.languageCode}` : ''}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Main: Editor */}
+                <div className="flex-1 flex flex-col bg-slate-950 relative">
+                    <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-white p-2 bg-slate-900 rounded-full z-10"><X size={16} /></button>
+
+                    {draft ? (
+                        <>
+                            <div className="flex-1 overflow-y-auto p-6 pt-12 space-y-4">
+                                {isConnected && (
+                                    <div className="text-[10px] text-yellow-400/80 uppercase tracking-wider">Changes apply on the next connect.</div>
+                                )}
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div>
+                                        <label className={labelClass}>Profile name</label>
+                                        <input className={inputClass} value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} />
+                                    </div>
+                                    <div>
+                                        <label className={labelClass}>Your name</label>
+                                        <input className={inputClass} value={draft.userName} onChange={e => setDraft({ ...draft, userName: e.target.value })} />
+                                    </div>
+                                    <div>
+                                        <label className={labelClass}>Language</label>
+                                        <select className={inputClass} value={draft.languageStyle} onChange={e => setDraft({ ...draft, languageStyle: e.target.value as LanguageStyle })}>
+                                            <option value="hinglish">Hinglish</option>
+                                            <option value="english">English</option>
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className={labelClass}>Tone</label>
+                                        <select className={inputClass} value={draft.tone} onChange={e => setDraft({ ...draft, tone: e.target.value as PersonaTone })}>
+                                            {Object.keys(PERSONA_TONES).map(tone => <option key={tone} value={tone}>{tone}</option>)}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className={labelClass}>Voice</label>
+                                        <select className={inputClass} value={draft.voice} onChange={e => setDraft({ ...draft, voice: e.target.value })}>
+                                            {voiceOptions}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className={labelClass}>Speech language</label>
+                                        <select className={inputClass} value={draft.languageCode ?? ''} onChange={e => setDraft({ ...draft, languageCode: e.target.value })}>
+                                            {SPEECH_LANGUAGES.map(language => <option key={language.code} value={language.code}>{language.label}</option>)}
+                                        </select>
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className={`${labelClass} text-purple-400/80`}>Dual Core voices</label>
+                                    <div className="grid grid-cols-2 gap-3">
+                                        {DUAL_AGENTS.map(agent => (
+                                            <div key={agent.id}>
+                                                <label className={labelClass}>{agent.label}</label>
+                                                <select className={inputClass} value={personaSpeech(draft).dualVoices[agent.id]} onChange={e => setDualVoice(agent.id, e.target.value)}>
+                                                    {voiceOptions}
+                                                </select>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className={labelClass}>Extra directives</label>
+                                    <textarea
+                                        className={`${inputClass} h-28 resize-none font-mono`}
+                                        value={draft.directives}
+                                        onChange={e => setDraft({ ...draft, directives: e.target.value })}
+                                        placeholder="- Always answer budgets in INR."
+                                    />
+                                </div>
+                                <div>
+                                    <label className={labelClass}>Tools</label>
+                                    <div className="flex flex-wrap gap-1.5 text-[10px] font-bold uppercase tracking-wider">
+                                        {AVAILABLE_TOOLS.map(name => (
+                                            <button
+                                                key={name}
+                                                onClick={() => toggleTool(name)}
+                                                className={`px-2 py-1 rounded border transition-colors ${draft.enabledTools.includes(name) ? 'border-cyan-500/50 bg-cyan-900/20 text-cyan-400' : 'border-slate-800 text-slate-500 hover:text-slate-300'}`}
+                                            >
+                                                {name}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className={labelClass}>Run without asking</label>
+                                    <div className="flex flex-wrap gap-1.5 text-[10px] font-bold uppercase tracking-wider">
+                                        {GATED_TOOLS.map(name => (
+                                            <button
+                                                key={name}
+                                                onClick={() => toggleAutoApprove(name)}
+                                                className={`px-2 py-1 rounded border transition-colors ${draft.autoApproveTools?.includes(name) ? 'border-yellow-500/50 bg-yellow-900/20 text-yellow-400' : 'border-slate-800 text-slate-500 hover:text-slate-300'}`}
+                                            >
+                                                {name}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <div className="text-[10px] text-slate-600 mt-1">Everything else asks before deleting, overwriting, downloading or opening sites.</div>
+                                </div>
+                            </div>
+
+                            <div className="p-4 border-t border-slate-800 flex items-center gap-2">
+                                <button
+                                    onClick={() => onSave({ ...draft, updatedAt: Date.now() })}
+                                    disabled={!isDirty || !draft.name.trim()}
+                                    className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-cyan-500/50 bg-cyan-900/20 text-cyan-400 hover:bg-cyan-900/40 disabled:opacity-40 text-xs font-bold uppercase tracking-wider transition-colors"
+                                >
+                                    <Save size={12} /> Save
+                                </button>
+                                <button
+                                    onClick={() => onActivate(draft.id)}
+                                    disabled={draft.id === activeId}
+                                    className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-green-500/50 bg-green-900/20 text-green-400 hover:bg-green-900/40 disabled:opacity-40 text-xs font-bold uppercase tracking-wider transition-colors"
+                                >
+                                    <Check size={12} /> Use this profile
+                                </button>
+                                {draft.id !== DEFAULT_PERSONA_ID && (
+                                    <button
+                                        onClick={() => onDelete(draft.id)}
+                                        className="ml-auto p-2 rounded bg-red-900/20 hover:bg-red-900/40 text-red-400 transition-colors"
+                                    >
+                                        <Trash size={14} />
+                                    </button>
+                                )}
+                            </div>
+                        </>
+                    ) : (
+                        <div className="flex-1 flex items-center justify-center text-slate-600 text-xs italic">No profiles yet.</div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,161 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, Plus, X } from 'lucide-react';
+import { columnName, parseCsv, serializeCsv } from '../utils/csv';
+import { evaluateSheet } from '../utils/formula';
+
+interface SpreadsheetProps {
+    csv: string;
+    // Called with the full CSV after every edit; without it the grid is read-only
+    onChange?: (csv: string) => void;
+}
+
+interface SortState {
+    col: number;
+    direction: 'asc' | 'desc';
+}
+
+const compareCells = (a: string, b: string): number => {
+    const x = Number(a);
+    const y = Number(b);
+    if (a.trim() !== '' && b.trim() !== '' && !Number.isNaN(x) && !Number.isNaN(y)) return x - y;
+    return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+};
+
+/**
+ * Editable CSV grid. Row 1 is the header and stays on top; sorting only reorders the view
+ * so formula references keep pointing at the cells they were written against. Cells show
+ * their computed value and switch to the raw text (formula included) while being edited.
+ */
+export const Spreadsheet: React.FC<SpreadsheetProps> = ({ csv, onChange }) => {
+    const rows = useMemo(() => {
+        const parsed = parseCsv(csv);
+        return parsed.length > 0 ? parsed : [['']];
+    }, [csv]);
+    const values = useMemo(() => evaluateSheet(rows), [rows]);
+
+    const [editing, setEditing] = useState<{ row: number; col: number; draft: string } | null>(null);
+    const [sort, setSort] = useState<SortState | null>(null);
+
+    const width = rows[0].length;
+    const readOnly = !onChange;
+
+    // Body rows in display order, as indices into `rows`
+    const order = useMemo(() => {
+        const indices = rows.slice(1).map((_, i) => i + 1);
+        if (!sort) return indices;
+        const sign = sort.direction === 'asc' ? 1 : -1;
+        return indices.sort((a, b) => sign * compareCells(values[a][sort.col] ?? '', values[b][sort.col] ?? ''));
+    }, [rows, values, sort]);
+
+    const commit = (next: string[][]) => onChange?.(serializeCsv(next));
+
+    const saveEdit = () => {
+        if (!editing) return;
+        const { row, col, draft } = editing;
+        setEditing(null);
+        if (rows[row][col] === draft) return;
+        commit(rows.map((cells, r) => r === row ? cells.map((cell, c) => c === col ? draft : cell) : cells));
+    };
+
+    const toggleSort = (col: number) => {
+        setSort(prev => {
+            if (prev?.col !== col) return { col, direction: 'asc' };
+            return prev.direction === 'asc' ? { col, direction: 'desc' } : null;
+        });
+    };
+
+    const addRow = () => commit([...rows, Array(width).fill('')]);
+    const addColumn = () => commit(rows.map((cells, r) => [...cells, r === 0 ? `Column ${columnName(width)}` : '']));
+    const removeRow = (row: number) => commit(rows.filter((_, r) => r !== row));
+    const removeColumn = (col: number) => {
+        if (width <= 1) return;
+        if (sort?.col === col) setSort(null);
+        commit(rows.map(cells => cells.filter((_, c) => c !== col)));
+    };
+
+    const renderCell = (row: number, col: number) => {
+        if (editing?.row === row && editing.col === col) {
+            return (
+                <input
+                    autoFocus
+                    value={editing.draft}
+                    onChange={e => setEditing({ ...editing, draft: e.target.value })}
+                    onBlur={saveEdit}
+                    onKeyDown={e => {
+                        if (e.key === 'Enter') saveEdit();
+                        if (e.key === 'Escape') setEditing(null);
+                    }}
+                    className="w-full min-w-[6rem] bg-slate-950 border border-cyan-500/50 rounded px-1 py-0.5 outline-none font-mono text-slate-200"
+                />
+            );
+        }
+        const value = values[row][col];
+        return (
+            <span className={value.startsWith('#') && rows[row][col].startsWith('=') ? 'text-red-400' : ''}>
+                {value.trim()}
+            </span>
+        );
+    };
+
+    const cellProps = (row: number, col: number) => ({
+        onDoubleClick: readOnly ? undefined : () => setEditing({ row, col, draft: rows[row][col] }),
+        title: rows[row][col].startsWith('=') ? rows[row][col] : undefined,
+    });
+
+    return (
+        <div className="space-y-2">
+            <div className="overflow-x-auto">
+                <table className="min-w-full text-xs md:text-sm text-left border-collapse">
+                    <thead>
+                        <tr className="text-[10px] text-slate-500 font-mono">
+                            <th className="w-6"></th>
+                            {rows[0].map((_, col) => (
+                                <th key={col} className="px-2 py-1 font-normal">
+                                    <div className="flex items-center gap-1">
+                                        <button onClick={() => toggleSort(col)} title="Sort" className="flex items-center gap-1 hover:text-cyan-400 transition-colors">
+                                            {columnName(col)}
+                                            {sort?.col === col ? (sort.direction === 'asc' ? <ArrowUp size={10} /> : <ArrowDown size={10} />) : <ArrowUpDown size={10} className="opacity-40" />}
+                                        </button>
+                                        {!readOnly && width > 1 && (
+                                            <button onClick={() => removeColumn(col)} title="Remove column" className="ml-auto hover:text-red-400 transition-colors"><X size={10} /></button>
+                                        )}
+                                    </div>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {[0, ...order].map(row => (
+                            <tr key={row} className={row === 0 ? 'bg-slate-800 font-bold text-cyan-400' : 'border-b border-slate-800 hover:bg-slate-900/50 group'}>
+                                <td className="px-1 text-[10px] text-slate-600 font-mono font-normal">
+                                    {row > 0 && !readOnly ? (
+                                        <button onClick={() => removeRow(row)} title="Remove row" className="hover:text-red-400 transition-colors">
+                                            <span className="group-hover:hidden">{row + 1}</span>
+                                            <X size={10} className="hidden group-hover:inline" />
+                                        </button>
+                                    ) : row + 1}
+                                </td>
+                                {rows[row].map((_, col) => (
+                                    <td key={col} {...cellProps(row, col)} className="p-2 border-r border-slate-800 last:border-r-0 whitespace-nowrap">
+                                        {renderCell(row, col)}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            {!readOnly && (
+                <div className="flex gap-2 text-[10px] font-bold uppercase tracking-wider">
+                    <button onClick={addRow} className="flex items-center gap-1 px-2 py-1 rounded border border-slate-800 text-slate-500 hover:text-cyan-400 hover:border-cyan-500/50 transition-colors">
+                        <Plus size={10} /> Row
+                    </button>
+                    <button onClick={addColumn} className="flex items-center gap-1 px-2 py-1 rounded border border-slate-800 text-slate-500 hover:text-cyan-400 hover:border-cyan-500/50 transition-colors">
+                        <Plus size={10} /> Column
+                    </button>
+                    <span className="ml-auto self-center text-slate-600 normal-case font-normal tracking-normal">Double-click a cell to edit. Formulas start with =</span>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,16 +1,25 @@
 import React, { useMemo } from 'react';
+import { DualAgentId } from '../types';
 
 interface VisualizerProps {
     volume: number;
     isActive: boolean;
     isSpeaking: boolean;
     isDualMode?: boolean;
+    // Dual Core: each orb follows its own agent; falls back to the shared values
+    agentVolumes?: Record<DualAgentId, number>;
+    speakingAgents?: Record<DualAgentId, boolean>;
 }
 
-export const Visualizer: React.FC<VisualizerProps> = ({ volume, isActive, isSpeaking, isDualMode = false }) => {
+export const Visualizer: React.FC<VisualizerProps> = ({ volume, isActive, isSpeaking, isDualMode = false, agentVolumes, speakingAgents }) => {
     
+    const crackVolume = agentVolumes?.crack ?? volume;
+    const jackVolume = agentVolumes?.jack ?? volume;
+    const isCrackSpeaking = speakingAgents?.crack ?? isSpeaking;
+    const isJackSpeaking = speakingAgents?.jack ?? isSpeaking;
+
     // Scale for main orb
-    const baseScale = isActive ? 1 + Math.min(volume * 1.5, 0.8) : 1;
+    const baseScale = isActive ? 1 + Math.min(crackVolume * 1.5, 0.8) : 1;
 
     // Colors
     const crackColor = '#22d3ee'; // Cyan (Crack)
@@ -43,11 +52,11 @@ export const Visualizer: React.FC<VisualizerProps> = ({ volume, isActive, isSpea
                     className="w-24 h-24 rounded-full flex items-center justify-center relative transition-colors duration-300"
                     style={{
                         background: `radial-gradient(circle, ${isActive ? crackColor : inactiveColor} 0%, #020617 100%)`,
-                        boxShadow: isActive ? `0 0 ${30 + volume * 50}px ${crackColor}, inset 0 0 20px #cffafe` : 'none',
+                        boxShadow: isActive ? `0 0 ${30 + crackVolume * 50}px ${crackColor}, inset 0 0 20px #cffafe` : 'none',
                         border: '2px solid rgba(34, 211, 238, 0.4)'
                     }}
                 >
-                    {isActive && isSpeaking && (
+                    {isActive && isCrackSpeaking && (
                         <div className="absolute inset-0 rounded-full border border-cyan-100 opacity-60 animate-ping"></div>
                     )}
                 </div>
@@ -65,7 +74,7 @@ export const Visualizer: React.FC<VisualizerProps> = ({ volume, isActive, isSpea
                     ${isDualMode ? 'opacity-100 translate-x-16' : 'opacity-0 translate-x-0 scale-0'}
                 `}
                 style={{
-                     transform: isDualMode ? `translateX(60px) scale(${1 + (volume * 0.5)})` : `scale(0)`, // Jack moves less
+                     transform: isDualMode ? `translateX(60px) scale(${1 + (jackVolume * 0.5)})` : `scale(0)`, // Jack moves less
                      filter: isDualMode ? 'none' : 'blur(20px)'
                 }}
             >
@@ -74,12 +83,12 @@ export const Visualizer: React.FC<VisualizerProps> = ({ volume, isActive, isSpea
                     className="w-24 h-24 flex items-center justify-center relative"
                     style={{
                         background: `linear-gradient(135deg, ${jackColor} 0%, #581c87 100%)`,
-                        boxShadow: `0 0 ${20 + volume * 20}px ${jackColor}, inset 0 0 10px #f3e8ff`,
+                        boxShadow: `0 0 ${20 + jackVolume * 20}px ${jackColor}, inset 0 0 10px #f3e8ff`,
                         border: '1px solid rgba(168, 85, 247, 0.5)',
                         clipPath: 'polygon(50% 0%, 100% 25%, 100% 75%, 50% 100%, 0% 75%, 0% 25%)' // Hexagon shape for logic
                     }}
                 >
-                     {isActive && isSpeaking && isDualMode && (
+                     {isActive && isJackSpeaking && isDualMode && (
                         <div className="absolute inset-2 bg-purple-300/20 animate-pulse" style={{ clipPath: 'polygon(50% 0%, 100% 25%, 100% 75%, 50% 100%, 0% 75%, 0% 25%)' }}></div>
                     )}
                 </div>
@@ -101,7 +110,7 @@ export const Visualizer: React.FC<VisualizerProps> = ({ volume, isActive, isSpea
             {/* Main Status Text */}
             <div className="absolute -bottom-24 text-center w-full">
                <span className={`text-sm font-medium tracking-widest uppercase ${isActive ? (isDualMode ? 'text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-400 glow-text' : 'text-cyan-400 glow-text') : 'text-slate-500'}`}>
-                   {isActive ? (isDualMode ? "DUAL CORE // SYNCED" : (isSpeaking ? "Speaking" : "Listening")) : "Offline"}
+                   {isActive ? (isDualMode ? (isCrackSpeaking ? "CRACK // SPEAKING" : isJackSpeaking ? "JACK // SPEAKING" : "DUAL CORE // SYNCED") : (isSpeaking ? "Speaking" : "Listening")) : "Offline"}
                </span>
             </div>
         </div>
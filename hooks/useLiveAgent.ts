@@ -1,151 +1,149 @@
 
-import { useState, useRef, useEffect, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, FunctionDeclaration, Type, Schema, Tool } from '@google/genai';
-import { base64ToBytes, decodeAudioData, createPcmBlob } from '../utils/audio-utils';
-import { ConnectionState, MessageLog, SUPPORTED_APPS, VideoState, CanvasItem, SessionData, Notification } from '../types';
-import { saveSession } from '../utils/db';
-
-// Tool: Control Browser
-const browserTool: FunctionDeclaration = {
-    name: 'controlBrowser',
-    description: 'Controls the web browser to open applications or search for content.',
-    parameters: {
-        type: Type.OBJECT,
-        properties: {
-            appName: {
-                type: Type.STRING,
-                description: 'The name of the application or website (e.g., "canva", "google", "youtube", "spotify").',
-            },
-            searchQuery: {
-                type: Type.STRING,
-                description: 'Optional. The text to search for within the app.',
-            },
-        },
-        required: ['appName'],
-    } as Schema,
-};
+import { useState, useRef, useEffect, useCallback, SetStateAction } from 'react';
+import { FunctionCall, GoogleGenAI, LiveServerMessage, Modality, Session, SpeechConfig, Tool } from '@google/genai';
+import { base64ToBytes, decodeAudioData } from '../utils/audio-utils';
+import { startAudioCapture, AudioCapture } from '../utils/audio-capture';
+import { ConnectionState, MessageLog, VideoState, CanvasItem, CanvasItemPatch, ChangeAuthor, SessionData, Notification, PersonaProfile, SpeechSettings, DualAgentId } from '../types';
+import { searchSessions } from '../utils/db';
+import { createSessionPersister, SessionPersister } from '../utils/session-persistence';
+import { buildSessionContext } from '../utils/session-context';
+import { downloadBlob } from '../utils/export';
+import { ItemExportFormat, exportCanvasItem, fileToCanvasItem } from '../utils/item-files';
+import { AgentChange, editedSince, itemRevisions, reconcileChange, untrash } from '../utils/revisions';
+import { ToolConfirmation, ToolDecision, needsConfirmation, parseVoiceDecision } from '../utils/confirmation';
+import { editPrompt, requestImages } from '../utils/image-model';
+import { createImageVersions } from '../utils/image-versions';
+import { ToolCancelReason, ToolJob, ToolJobStatus, cancelledError, untilCancelled } from '../utils/tool-jobs';
+import { toolRegistry, ToolContext, ToolError, toErrorResponse } from '../tools';
+import { buildDualAgentInstruction, buildLiveTools, buildSpeechConfig, buildSystemInstruction, createDefaultPersona, personaSpeech } from '../utils/persona';
+import { agentLabel, createTurnController, otherAgent } from '../utils/turn-taking';
 
-// Tool: Generate/Display Image (Nano Banana)
-const generateImageTool: FunctionDeclaration = {
-    name: 'generateImage',
-    description: 'Generates an image using Nano Banana technology (gemini-2.5-flash-image). Use this when the user asks to "generate an image", "show me", or "visualize".',
-    parameters: {
-        type: Type.OBJECT,
-        properties: {
-            prompt: {
-                type: Type.STRING,
-                description: 'A detailed English prompt for the image generation model. Include specific details about lighting, style, text placement, and colors.',
-            },
-        },
-        required: ['prompt'],
-    } as Schema,
-};
+const MAX_RECONNECT_ATTEMPTS = 6;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 16000;
+// Agent changes that can be undone, most recent first
+const MAX_AGENT_UNDO = 20;
+// An unanswered confirmation card counts as a "no" after this
+const CONFIRMATION_TIMEOUT_MS = 60000;
 
-// Tool: Play Video/Music
-const playVideoTool: FunctionDeclaration = {
-    name: 'playVideo',
-    description: 'Plays a video or song for the user on screen. Supports YouTube search queries.',
-    parameters: {
-        type: Type.OBJECT,
-        properties: {
-            query: {
-                type: Type.STRING,
-                description: 'The search query for the video or song.',
-            },
-        },
-        required: ['query'],
-    } as Schema,
-};
+const DUAL_AGENTS: DualAgentId[] = ['crack', 'jack'];
+const SILENT_AGENTS: Record<DualAgentId, number> = { crack: 0, jack: 0 };
+const IDLE_AGENTS: Record<DualAgentId, boolean> = { crack: false, jack: false };
 
-// Tool: Manage Workspace (CRUD)
-const manageWorkspaceTool: FunctionDeclaration = {
-    name: 'manageWorkspace',
-    description: 'Manage the user\'s workspace (Canvas). Perform CRUD operations: Create, Read (list items), Update, or Delete notes, routines, and spreadsheets.',
-    parameters: {
-        type: Type.OBJECT,
-        properties: {
-            action: {
-                type: Type.STRING,
-                enum: ['create', 'read', 'update', 'delete'],
-                description: 'The action to perform.',
-            },
-            itemType: {
-                type: Type.STRING,
-                enum: ['note', 'routine', 'spreadsheet'],
-                description: 'Type of item (only for create). Use "spreadsheet" for tables/budgets.',
-            },
-            title: {
-                type: Type.STRING,
-                description: 'Title of the item (for create/update).',
-            },
-            content: {
-                type: Type.STRING,
-                description: 'Content of the item. For spreadsheets, strictly use CSV format (e.g. "Item,Cost\\nApple,1.00").',
-            },
-            itemId: {
-                type: Type.STRING,
-                description: 'The ID of the item to update or delete. Use "read" first to find IDs if unknown.',
-            },
-        },
-        required: ['action'],
-    } as Schema,
-};
+export interface ConnectOptions {
+    dualMode?: boolean;
+    // Continue a saved session: same id, its logs and canvas, and a primed model
+    resumeFrom?: SessionData;
+    // Prompt, voice and tools; the built-in Mr. Crack profile when omitted
+    persona?: PersonaProfile;
+    // Voice / language overrides; taken from the persona when omitted
+    speech?: SpeechSettings;
+}
 
-// Tool: Download Item
-const downloadItemTool: FunctionDeclaration = {
-    name: 'downloadItem',
-    description: 'Downloads a specific item from the workspace to the user\'s device.',
-    parameters: {
-        type: Type.OBJECT,
-        properties: {
-            itemId: {
-                type: Type.STRING,
-                description: 'The ID of the item to download.',
-            },
-        },
-        required: ['itemId'],
-    } as Schema,
-};
+interface LiveConfig {
+    systemInstruction: string;
+    tools: Tool[];
+    speechConfig: SpeechConfig;
+}
+
+// One Live session and its playback chain. Single mode runs one ('crack'); Dual Core runs both agents.
+interface LiveChannel {
+    agent: DualAgentId;
+    config: LiveConfig;
+    sessionPromise: Promise<Session> | null;
+    isOpen: boolean;
+    // Reconnect / resumption
+    resumptionHandle?: string;
+    reconnectAttempt: number;
+    reconnectTimer: number | null;
+    // Playback
+    output: GainNode;
+    analyser: AnalyserNode;
+    nextStartTime: number;
+    sources: Set<AudioBufferSourceNode>;
+    // Current model turn
+    muteModelTurn: boolean;  // Manual stop: drop the rest of this turn's audio
+    modelTurnOpen: boolean;
+    yieldedTurn: boolean;    // Dual Core: turn went to the partner, drop its audio and skip its tools
+    turnText: string;        // Output transcript so far, relayed to the partner at turn end
+    heardUserText: string;   // The user utterance this turn answers, relayed alongside
+}
 
 export const useLiveAgent = () => {
     const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
     const [logs, setLogs] = useState<MessageLog[]>([]);
-    const [volume, setVolume] = useState<number>(0);
-    const [isAgentSpeaking, setIsAgentSpeaking] = useState(false);
+    const [agentVolumes, setAgentVolumes] = useState<Record<DualAgentId, number>>(SILENT_AGENTS);
+    const [speakingAgents, setSpeakingAgents] = useState<Record<DualAgentId, boolean>>(IDLE_AGENTS);
     const [isScreenSharing, setIsScreenSharing] = useState(false);
     const [isDualMode, setIsDualMode] = useState(false);
     const [videoState, setVideoState] = useState<VideoState>({ isActive: false, url: null, query: null });
     const [notifications, setNotifications] = useState<Notification[]>([]);
+    const [isMicOn, setIsMicOn] = useState(true);
     
     // Canvas State
     const [canvasItems, setCanvasItems] = useState<CanvasItem[]>([]);
+    const [trash, setTrash] = useState<CanvasItem[]>([]);
     const [activeCanvasId, setActiveCanvasId] = useState<string | null>(null);
+    const [lastAgentChange, setLastAgentChange] = useState<AgentChange | null>(null);
+    const [pendingConfirmations, setPendingConfirmations] = useState<ToolConfirmation[]>([]);
+    const [toolJobs, setToolJobs] = useState<ToolJob[]>([]);
     const sessionIdRef = useRef<string>(Date.now().toString());
+    // Kept apart from the id: imported and continued sessions keep ids that aren't timestamps
+    const sessionStartRef = useRef<number>(Date.now());
 
     // Audio Refs
     const inputContextRef = useRef<AudioContext | null>(null);
     const outputContextRef = useRef<AudioContext | null>(null);
     const inputSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-    const processorRef = useRef<ScriptProcessorNode | null>(null);
-    const outputNodeRef = useRef<GainNode | null>(null);
-    const analyzerRef = useRef<AnalyserNode | null>(null);
+    const captureRef = useRef<AudioCapture | null>(null);
     const volumeIntervalRef = useRef<number | null>(null);
     
     // Video/Screen Share Refs
     const videoStreamRef = useRef<MediaStream | null>(null);
     const videoIntervalRef = useRef<number | null>(null);
     const videoCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const videoElementRef = useRef<HTMLVideoElement | null>(null);
     const isScreenSharingRef = useRef<boolean>(false);
+
+    // Mic gate, read from the audio callback on every buffer
+    const isMicOnRef = useRef<boolean>(true);
     
-    // API & Session
-    const sessionPromiseRef = useRef<Promise<any> | null>(null);
-    const nextStartTimeRef = useRef<number>(0);
-    const audioSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+    // API & Sessions
+    const channelsRef = useRef<Map<DualAgentId, LiveChannel>>(new Map());
     const apiKeyRef = useRef<string | undefined>(undefined);
+    // Dual Core: who hears the mic and answers next
+    const turnControllerRef = useRef(createTurnController());
+    // What the user said since the last routing decision, and how agents address them
+    const userTurnTextRef = useRef<string>('');
+    const userLabelRef = useRef<string>('User');
+    // Profile of the running session, reused when switching modes
+    const personaRef = useRef<{ persona: PersonaProfile; speech: SpeechSettings } | null>(null);
+
+    // Reconnect / resumption
+    const connectionStateRef = useRef<ConnectionState>(ConnectionState.DISCONNECTED);
+    const intentionalCloseRef = useRef<boolean>(false);
     
-    // Helpers to access state in callbacks
+    // Source of truth for logs/canvas: updated synchronously, then mirrored into state,
+    // so callbacks and the persister never wait on a render
     const canvasItemsRef = useRef<CanvasItem[]>([]);
-    useEffect(() => { canvasItemsRef.current = canvasItems; }, [canvasItems]);
+    const trashRef = useRef<CanvasItem[]>([]);
+    const logsRef = useRef<MessageLog[]>([]);
+    // This session's agent changes, newest last, for undo
+    const agentChangesRef = useRef<AgentChange[]>([]);
+    // Open confirmation cards by call id (oldest first), and what the user said since the first appeared
+    const confirmationResolversRef = useRef<Map<string, (decision: ToolDecision) => void>>(new Map());
+    const confirmationSpeechRef = useRef('');
+    // Cancel handles for in-flight calls by id, and the tail of each tool lane
+    const toolJobControllersRef = useRef<Map<string, AbortController>>(new Map());
+    const toolLanesRef = useRef<Map<string, Promise<unknown>>>(new Map());
+    const isDualModeRef = useRef<boolean>(false);
+    const persisterRef = useRef<SessionPersister | null>(null);
+
+    // Live callbacks outlive the render that created them, so they read the ref
+    const updateConnectionState = useCallback((state: ConnectionState) => {
+        connectionStateRef.current = state;
+        setConnectionState(state);
+    }, []);
 
     // SFX Helper
     const playSystemSound = (type: 'connect' | 'error' | 'success') => {
@@ -186,7 +184,7 @@ export const useLiveAgent = () => {
     };
 
     const addNotification = (type: 'success' | 'error' | 'info', message: string) => {
-        const id = Date.now().toString();
+        const id = crypto.randomUUID();
         setNotifications(prev => [...prev, { id, type, message }]);
         setTimeout(() => {
             setNotifications(prev => prev.filter(n => n.id !== id));
@@ -196,23 +194,183 @@ export const useLiveAgent = () => {
         if (type === 'error') playSystemSound('error');
     };
 
-    useEffect(() => {
-        if (logs.length > 0 || canvasItems.length > 0) {
-            const sessionData: SessionData = {
-                id: sessionIdRef.current,
-                startTime: parseInt(sessionIdRef.current),
-                endTime: Date.now(),
-                logs,
-                canvasItems
-            };
-            saveSession(sessionData).catch(err => console.error("Failed to save session", err));
+    if (!persisterRef.current) {
+        persisterRef.current = createSessionPersister(
+            (err) => {
+                const reason = err instanceof Error ? ` (${err.message})` : '';
+                addNotification('error', `Session not saved${reason}. Retrying on next change.`);
+            },
+            () => addNotification('info', 'Session saving restored'),
+        );
+    }
+    const persister = persisterRef.current;
+
+    const snapshotSession = (): SessionData => ({
+        id: sessionIdRef.current,
+        startTime: sessionStartRef.current,
+        endTime: Date.now(),
+        logs: logsRef.current,
+        canvasItems: canvasItemsRef.current,
+        trash: trashRef.current,
+        isDualMode: isDualModeRef.current,
+    });
+
+    const queueSave = () => {
+        if (logsRef.current.length > 0 || canvasItemsRef.current.length > 0 || trashRef.current.length > 0) {
+            persister.update(snapshotSession());
+        }
+    };
+
+    const updateLogs = useCallback((action: SetStateAction<MessageLog[]>) => {
+        logsRef.current = typeof action === 'function' ? action(logsRef.current) : action;
+        setLogs(logsRef.current);
+        queueSave();
+    }, []);
+
+    const updateCanvasItems = useCallback((action: SetStateAction<CanvasItem[]>) => {
+        canvasItemsRef.current = typeof action === 'function' ? action(canvasItemsRef.current) : action;
+        setCanvasItems(canvasItemsRef.current);
+        queueSave();
+    }, []);
+
+    const updateTrash = useCallback((action: SetStateAction<CanvasItem[]>) => {
+        trashRef.current = typeof action === 'function' ? action(trashRef.current) : action;
+        setTrash(trashRef.current);
+        queueSave();
+    }, []);
+
+    // Every workspace change by the user or the agent lands here: edits get a revision,
+    // removals go to the trash, and agent changes are remembered for undo
+    const changeCanvasItems = useCallback((action: SetStateAction<CanvasItem[]>, author: ChangeAuthor) => {
+        const before = canvasItemsRef.current;
+        const next = typeof action === 'function' ? action(before) : action;
+        const { items, trashed, change } = reconcileChange(before, next, author);
+        updateCanvasItems(items);
+        if (trashed.length > 0) updateTrash(prev => [...trashed, ...prev]);
+        if (change) {
+            agentChangesRef.current = [...agentChangesRef.current, change].slice(-MAX_AGENT_UNDO);
+            setLastAgentChange(change);
         }
-    }, [logs, canvasItems]);
+    }, [updateCanvasItems, updateTrash]);
+
+    // Manual edits from the workspace panel; manageWorkspace updates take the same path as the agent
+    const updateCanvasItem = useCallback((id: string, patch: CanvasItemPatch, author: ChangeAuthor = 'user') => {
+        changeCanvasItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item), author);
+    }, [changeCanvasItems]);
 
+    // Last chance to write before the tab goes away or into the background
+    useEffect(() => {
+        const flush = () => { persister.flush(); };
+        const onVisibilityChange = () => {
+            if (document.visibilityState === 'hidden') flush();
+        };
+        window.addEventListener('pagehide', flush);
+        document.addEventListener('visibilitychange', onVisibilityChange);
+        return () => {
+            window.removeEventListener('pagehide', flush);
+            document.removeEventListener('visibilitychange', onVisibilityChange);
+        };
+    }, [persister]);
+
+    // Logs are append-only (the terminal shows the tail), so an entry's index stays its storage key
     const addLog = useCallback((role: 'user' | 'model' | 'system', text: string) => {
-        setLogs(prev => [...prev.slice(-99), { role, text, timestamp: new Date() }]);
+        updateLogs(prev => [...prev, { role, text, timestamp: new Date() }]);
+    }, [updateLogs]);
+
+    // Open transcript entry per speaker, keyed by its timestamp so streamed chunks merge into one line per turn
+    const transcriptTurnRef = useRef<Partial<Record<'user' | DualAgentId, Date>>>({});
+
+    const appendTranscript = useCallback((speaker: 'user' | DualAgentId, text: string) => {
+        // The other side's turn is over as soon as this one starts speaking
+        if (speaker === 'user') {
+            transcriptTurnRef.current = { user: transcriptTurnRef.current.user };
+        } else {
+            transcriptTurnRef.current.user = undefined;
+        }
+
+        const openTurn = transcriptTurnRef.current[speaker];
+        if (openTurn) {
+            updateLogs(prev => prev.map(log => log.timestamp === openTurn ? { ...log, text: log.text + text } : log));
+        } else {
+            const timestamp = new Date();
+            transcriptTurnRef.current[speaker] = timestamp;
+            const entry: MessageLog = speaker === 'user'
+                ? { role: 'user', text, timestamp }
+                : { role: 'model', text, timestamp, ...(isDualModeRef.current ? { agent: speaker } : {}) };
+            updateLogs(prev => [...prev, entry]);
+        }
+    }, [updateLogs]);
+
+    const liveChannels = (): LiveChannel[] => {
+        const channels: LiveChannel[] = [];
+        channelsRef.current.forEach(channel => channels.push(channel));
+        return channels;
+    };
+
+    // Fire-and-forget send on a channel's session; a closing socket is not worth surfacing
+    const withSession = (channel: LiveChannel | undefined, send: (session: Session) => void) => {
+        channel?.sessionPromise?.then(session => {
+            try {
+                send(session);
+            } catch (e) {
+                // Session may already be closing
+            }
+        }).catch(() => {});
+    };
+
+    const setAgentSpeaking = (agent: DualAgentId, speaking: boolean) => {
+        setSpeakingAgents(prev => prev[agent] === speaking ? prev : { ...prev, [agent]: speaking });
+    };
+
+    // Stops and flushes everything one channel has scheduled on the output context
+    const stopChannelPlayback = (channel: LiveChannel) => {
+        channel.sources.forEach(source => {
+            try {
+                source.stop();
+            } catch (e) {
+                // Source never started or already ended
+            }
+        });
+        channel.sources.clear();
+        channel.nextStartTime = 0;
+        setAgentSpeaking(channel.agent, false);
+    };
+
+    const stopPlayback = useCallback(() => {
+        liveChannels().forEach(stopChannelPlayback);
+        setSpeakingAgents(IDLE_AGENTS);
     }, []);
 
+    const stopAgentSpeech = useCallback(() => {
+        const speaking = liveChannels().filter(channel => channel.sources.size > 0);
+        if (speaking.length === 0) return;
+        speaking.forEach(channel => {
+            // Only mute what's still streaming in; a finished turn has nothing left to drop
+            channel.muteModelTurn = channel.modelTurnOpen;
+            stopChannelPlayback(channel);
+            transcriptTurnRef.current[channel.agent] = undefined;
+        });
+        addLog('system', 'Playback stopped.');
+    }, [addLog]);
+
+    // The channel that hears the mic: the only one in single mode, the floor holder in Dual Core
+    const floorChannel = () => channelsRef.current.get(turnControllerRef.current.floor);
+
+    const setMicEnabled = useCallback((enabled: boolean) => {
+        if (isMicOnRef.current === enabled) return;
+        isMicOnRef.current = enabled;
+        setIsMicOn(enabled);
+
+        // Tell the server the user stopped talking so it doesn't wait on a silent stream
+        if (!enabled) {
+            withSession(floorChannel(), session => session.sendRealtimeInput({ audioStreamEnd: true }));
+        }
+    }, []);
+
+    const toggleMic = useCallback(() => setMicEnabled(!isMicOnRef.current), [setMicEnabled]);
+    const startPushToTalk = useCallback(() => setMicEnabled(true), [setMicEnabled]);
+    const stopPushToTalk = useCallback(() => setMicEnabled(false), [setMicEnabled]);
+
     const stopScreenShare = useCallback(() => {
         let wasSharing = isScreenSharingRef.current;
         
@@ -224,6 +382,7 @@ export const useLiveAgent = () => {
             clearInterval(videoIntervalRef.current);
             videoIntervalRef.current = null;
         }
+        videoElementRef.current = null;
         
         isScreenSharingRef.current = false;
         setIsScreenSharing(false);
@@ -254,6 +413,7 @@ export const useLiveAgent = () => {
             const videoEl = document.createElement('video');
             videoEl.srcObject = stream;
             videoEl.play();
+            videoElementRef.current = videoEl;
 
             if (!videoCanvasRef.current) {
                 videoCanvasRef.current = document.createElement('canvas');
@@ -261,7 +421,7 @@ export const useLiveAgent = () => {
             const ctx = videoCanvasRef.current.getContext('2d');
 
             videoIntervalRef.current = window.setInterval(async () => {
-                if (!isScreenSharingRef.current || !sessionPromiseRef.current || !ctx || videoEl.readyState < 2) return;
+                if (!isScreenSharingRef.current || channelsRef.current.size === 0 || !ctx || videoEl.readyState < 2) return;
 
                 videoCanvasRef.current!.width = videoEl.videoWidth;
                 videoCanvasRef.current!.height = videoEl.videoHeight;
@@ -269,20 +429,13 @@ export const useLiveAgent = () => {
 
                 const base64Data = videoCanvasRef.current!.toDataURL('image/jpeg', 0.5).split(',')[1];
                 
-                sessionPromiseRef.current.then(session => {
-                    try {
-                        session.sendRealtimeInput({
-                            media: {
-                                mimeType: 'image/jpeg',
-                                data: base64Data
-                            }
-                        });
-                    } catch (e) {
-                        // Silent fail to avoid crashing the whole session
+                // In Dual Core both agents watch the screen
+                liveChannels().forEach(channel => withSession(channel, session => session.sendRealtimeInput({
+                    media: {
+                        mimeType: 'image/jpeg',
+                        data: base64Data
                     }
-                }).catch(() => {
-                    // Ignore promise rejections
-                });
+                })));
             }, 1000);
 
         } catch (e: any) {
@@ -297,108 +450,636 @@ export const useLiveAgent = () => {
         }
     }, [addLog, stopScreenShare, connectionState]);
 
-    const triggerDownload = (item: CanvasItem) => {
-        try {
-            let blob: Blob;
-            let ext: string;
-
-            if (item.type === 'image') {
-                const byteString = atob(item.content.split(',')[1]);
-                const mimeString = item.content.split(',')[0].split(':')[1].split(';')[0];
-                const ab = new ArrayBuffer(byteString.length);
-                const ia = new Uint8Array(ab);
-                for (let i = 0; i < byteString.length; i++) {
-                    ia[i] = byteString.charCodeAt(i);
-                }
-                blob = new Blob([ab], { type: mimeString });
-                ext = 'png';
-            } else if (item.type === 'spreadsheet') {
-                blob = new Blob([item.content], { type: 'text/csv' });
-                ext = 'csv';
-            } else {
-                blob = new Blob([item.content], { type: 'text/plain' });
-                ext = 'txt';
-            }
+    /**
+     * The shared screen as it looks right now, as a JPEG data URL (null when not sharing).
+     * Draws a fresh frame into videoCanvasRef when the video is ready, otherwise keeps the
+     * last frame the streaming loop put there.
+     */
+    const captureScreenFrame = (): string | null => {
+        const canvas = videoCanvasRef.current;
+        const videoEl = videoElementRef.current;
+        if (!isScreenSharingRef.current || !canvas) return null;
+        if (videoEl && videoEl.readyState >= 2) {
+            canvas.width = videoEl.videoWidth;
+            canvas.height = videoEl.videoHeight;
+            canvas.getContext('2d')?.drawImage(videoEl, 0, 0);
+        }
+        if (canvas.width === 0 || canvas.height === 0) return null;
+        // Better quality than the streamed frames; this one is kept and reused as a reference
+        return canvas.toDataURL('image/jpeg', 0.9);
+    };
 
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = `${item.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.${ext}`;
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            URL.revokeObjectURL(url);
+    // Screen share "Capture" button: the current frame becomes an image item
+    const captureScreen = () => {
+        const content = captureScreenFrame();
+        if (!content) {
+            addNotification('error', 'Nothing to capture yet');
+            return;
+        }
+        const item: CanvasItem = {
+            id: crypto.randomUUID(),
+            type: 'image',
+            title: `Screen capture ${new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`,
+            content,
+            timestamp: new Date(),
+        };
+        changeCanvasItems(prev => [item, ...prev], 'user');
+        setActiveCanvasId(item.id);
+        addNotification('success', 'Screen captured');
+    };
+
+    const triggerDownload = (item: CanvasItem, format?: ItemExportFormat) => {
+        try {
+            const { blob, fileName } = exportCanvasItem(item, format);
+            downloadBlob(blob, fileName);
             addNotification('success', `Downloaded ${item.title}`);
         } catch (e) {
             addNotification('error', 'Download failed');
         }
     };
 
-    const disconnect = useCallback(async () => {
-        if (sessionPromiseRef.current) {
+    // Uploaded CSV/XLSX/Markdown files become new workspace items
+    const importCanvasFiles = async (files: File[]) => {
+        let lastId: string | null = null;
+        for (const file of files) {
             try {
-                const session = await sessionPromiseRef.current;
+                const item = await fileToCanvasItem(file, crypto.randomUUID());
+                changeCanvasItems(prev => [item, ...prev], 'user');
+                lastId = item.id;
+                addNotification('success', `Imported ${item.title}`);
+            } catch (e: any) {
+                addNotification('error', `Import failed: ${e.message}`);
+            }
+        }
+        if (lastId) setActiveCanvasId(lastId);
+    };
+
+    // Workspace "Edit image" action: same model call as the editImage tool, credited to the user
+    const editImageItem = async (id: string, instruction: string, count: number) => {
+        const source = canvasItemsRef.current.find(item => item.id === id);
+        const apiKey = apiKeyRef.current || process.env.API_KEY;
+        if (!source || source.type !== 'image') return;
+        if (!apiKey) {
+            addNotification('error', 'API Key missing');
+            return;
+        }
+        try {
+            const images = await requestImages({ apiKey, prompt: editPrompt(instruction), images: [source.content] }, count);
+            const versions = createImageVersions(source, instruction, images);
+            changeCanvasItems(prev => [...versions, ...prev], 'user');
+            setActiveCanvasId(versions[0].id);
+            addNotification('success', versions.length > 1 ? `${versions.length} Variations Ready` : 'Image Edited');
+        } catch (e: any) {
+            addNotification('error', `Image edit failed: ${e.message}`);
+        }
+    };
+
+    // Handlers run inside Live callbacks, so everything they read goes through refs.
+    const buildToolContext = (signal: AbortSignal): ToolContext => ({
+        canvas: {
+            getItems: () => canvasItemsRef.current,
+            setItems: action => changeCanvasItems(action, 'agent'),
+            updateItem: (id, patch) => updateCanvasItem(id, patch, 'agent'),
+            setActiveId: setActiveCanvasId,
+            download: triggerDownload,
+        },
+        notify: addNotification,
+        log: addLog,
+        session: {
+            id: sessionIdRef.current,
+            apiKey: apiKeyRef.current || '',
+        },
+        setVideoState,
+        screen: {
+            capture: captureScreenFrame,
+        },
+        memory: {
+            search: searchSessions,
+        },
+        signal,
+    });
+
+    const resolveConfirmation = (id: string, decision: ToolDecision) => {
+        const resolve = confirmationResolversRef.current.get(id);
+        if (!resolve) return;
+        confirmationResolversRef.current.delete(id);
+        if (confirmationResolversRef.current.size === 0) confirmationSpeechRef.current = '';
+        setPendingConfirmations(prev => prev.filter(c => c.id !== id));
+        resolve(decision);
+    };
+
+    const confirmToolCall = (id: string, approved: boolean) => resolveConfirmation(id, approved ? 'approved' : 'denied');
+
+    // A clear spoken yes/no answers the oldest open card
+    const handleConfirmationSpeech = (text: string) => {
+        if (confirmationResolversRef.current.size === 0) return;
+        confirmationSpeechRef.current += text;
+        const approved = parseVoiceDecision(confirmationSpeechRef.current);
+        if (approved === null) return;
+        const [oldest] = confirmationResolversRef.current.keys();
+        confirmationSpeechRef.current = '';
+        resolveConfirmation(oldest, approved ? 'approved' : 'denied');
+    };
+
+    /**
+     * Policy check before a tool runs: low-risk calls and auto-approved tools pass straight
+     * through, everything else shows a card and waits for the user (or the timeout).
+     */
+    const gateToolCall = (call: FunctionCall, id: string, context: ToolContext, agent: DualAgentId): Promise<ToolDecision> => {
+        const { risk, summary } = toolRegistry.assess(call, context);
+        const autoApprove = personaRef.current?.persona.autoApproveTools ?? [];
+        if (!call.name || !needsConfirmation(risk, call.name, autoApprove)) return Promise.resolve('auto');
+
+        if (confirmationResolversRef.current.size === 0) confirmationSpeechRef.current = '';
+        setPendingConfirmations(prev => [...prev, { id, name: call.name!, summary, risk, agent }]);
+        setToolJobStatus(id, 'confirming');
+        addLog('system', `Waiting for confirmation: ${summary}`);
+        playSystemSound('success');
+
+        return new Promise(resolve => {
+            const timer = setTimeout(() => resolveConfirmation(id, 'timeout'), CONFIRMATION_TIMEOUT_MS);
+            // A cancelled job takes its card with it; the caller reports the cancellation
+            const onAbort = () => resolveConfirmation(id, 'denied');
+            context.signal.addEventListener('abort', onAbort, { once: true });
+            confirmationResolversRef.current.set(id, decision => {
+                clearTimeout(timer);
+                context.signal.removeEventListener('abort', onAbort);
+                if (!context.signal.aborted) {
+                    addLog('system', `${decision === 'approved' ? 'Confirmed' : decision === 'timeout' ? 'No answer' : 'Denied'}: ${summary}`);
+                }
+                resolve(decision);
+            });
+        });
+    };
+
+    const setToolJobStatus = (id: string, status: ToolJobStatus) =>
+        setToolJobs(prev => prev.map(job => job.id === id ? { ...job, status } : job));
+
+    // The task queue's cancel button, a Live toolCallCancellation, or closing the session
+    const cancelToolJob = (id: string, reason: ToolCancelReason = 'user') => {
+        toolJobControllersRef.current.get(id)?.abort(reason);
+    };
+
+    // One call from start to response: wait for its lane, the user's OK, then the tool itself
+    const executeToolCall = async (channel: LiveChannel, call: FunctionCall, id: string, signal: AbortSignal, after?: Promise<unknown>) => {
+        const respond = (response: Record<string, unknown>) => withSession(channel, session => session.sendToolResponse({
+            functionResponses: { id: call.id, name: call.name, response },
+        }));
+
+        try {
+            // Registered tools left out of this channel's config count as unknown too
+            const declared = channel.config.tools.some(tool => tool.functionDeclarations?.some(d => d.name === call.name));
+            if (!declared) throw new ToolError('UNKNOWN_TOOL', `Tool "${call.name}" is not available in this session.`);
+            if (after) await untilCancelled(after, signal);
+
+            const context = buildToolContext(signal);
+            const decision = await gateToolCall(call, id, context, channel.agent);
+            if (signal.aborted) throw cancelledError(signal.reason);
+            if (decision === 'denied' || decision === 'timeout') {
+                respond({
+                    result: decision === 'denied' ? 'The user denied this action. Nothing was done.' : 'The user did not confirm in time. Nothing was done.',
+                    userDecision: decision,
+                });
+                return;
+            }
+
+            setToolJobStatus(id, 'running');
+            const responseResult = await untilCancelled(toolRegistry.dispatch(call, context), signal);
+
+            // CRITICAL: Always send response back to model
+            respond(decision === 'approved' ? { ...responseResult, userDecision: decision } : responseResult);
+        } catch (toolError: any) {
+            if (signal.aborted) {
+                const reason: ToolCancelReason = signal.reason;
+                addLog('system', `Cancelled ${call.name}${reason === 'server' ? ' (dropped by the model)' : ''}`);
+                // The server has already forgotten the call, and a closed session has nobody to tell
+                if (reason === 'user') respond(toErrorResponse(cancelledError(reason)));
+                return;
+            }
+            console.error(`Tool ${call.name} error:`, toolError);
+            addLog('system', `Error in ${call.name}: ${toolError.message}`);
+            // Bad args and unknown IDs are the model's to fix; only real failures bother the user
+            if (!(toolError instanceof ToolError) || toolError.code === 'EXECUTION_FAILED') {
+                addNotification('error', `Task failed: ${call.name}`);
+            }
+
+            // Still send a response so the model doesn't hang
+            respond(toErrorResponse(toolError));
+        }
+    };
+
+    /**
+     * Starts every call of one toolCall message at once. Calls on the same lane (see
+     * ToolDefinition.lane) wait for the one before them; each answers the model as soon
+     * as it settles, so a slow image doesn't hold up a quick workspace read.
+     */
+    const runToolCalls = (channel: LiveChannel, calls: FunctionCall[]) => Promise.all(calls.map((call, i) => {
+        const id = call.id ?? `${call.name}-${Date.now()}-${i}`;
+        const controller = new AbortController();
+        toolJobControllersRef.current.set(id, controller);
+
+        const lane = toolRegistry.lane(call);
+        const after = lane ? toolLanesRef.current.get(lane) : undefined;
+        setToolJobs(prev => [...prev, { id, name: call.name ?? 'unknown', agent: channel.agent, status: after ? 'queued' : 'running', startedAt: Date.now() }]);
+
+        const run = executeToolCall(channel, call, id, controller.signal, after).finally(() => {
+            toolJobControllersRef.current.delete(id);
+            setToolJobs(prev => prev.filter(job => job.id !== id));
+        });
+        if (lane) {
+            // A cancelled call leaves its lane early, but the next one still waits for the one before it
+            const tail = Promise.all([after, run]);
+            toolLanesRef.current.set(lane, tail);
+            tail.then(() => {
+                if (toolLanesRef.current.get(lane) === tail) toolLanesRef.current.delete(lane);
+            });
+        }
+        return run;
+    }));
+
+    // Closes every Live session but leaves the audio pipeline running
+    const closeChannels = async () => {
+        // Nobody is left to act on an answer or a result
+        toolJobControllersRef.current.forEach(controller => controller.abort('closed'));
+        const pendingIds: string[] = [];
+        confirmationResolversRef.current.forEach((_, id) => pendingIds.push(id));
+        pendingIds.forEach(id => resolveConfirmation(id, 'denied'));
+        const channels = liveChannels();
+        channelsRef.current = new Map();
+        await Promise.all(channels.map(async channel => {
+            if (channel.reconnectTimer) clearTimeout(channel.reconnectTimer);
+            channel.reconnectTimer = null;
+            stopChannelPlayback(channel);
+            channel.output.disconnect();
+            if (!channel.sessionPromise) return;
+            try {
+                const session = await channel.sessionPromise;
                 session.close();
             } catch (e) {
                 console.warn("Error closing session", e);
             }
-        }
+        }));
+    };
+
+    const disconnect = useCallback(async () => {
+        intentionalCloseRef.current = true;
+        await closeChannels();
         
         stopScreenShare();
 
         if (inputSourceRef.current) inputSourceRef.current.disconnect();
-        if (processorRef.current) processorRef.current.disconnect();
+        if (captureRef.current) captureRef.current.stop();
         if (inputContextRef.current) inputContextRef.current.close();
         if (outputContextRef.current) outputContextRef.current.close();
         if (volumeIntervalRef.current) clearInterval(volumeIntervalRef.current);
         
         inputSourceRef.current = null;
-        processorRef.current = null;
+        captureRef.current = null;
         inputContextRef.current = null;
         outputContextRef.current = null;
-        sessionPromiseRef.current = null;
         
-        setConnectionState(ConnectionState.DISCONNECTED);
-        setIsAgentSpeaking(false);
-        setVolume(0);
+        updateConnectionState(ConnectionState.DISCONNECTED);
+        setSpeakingAgents(IDLE_AGENTS);
+        setAgentVolumes(SILENT_AGENTS);
         setVideoState({ isActive: false, url: null, query: null });
-        
-        const sessionData: SessionData = {
-            id: sessionIdRef.current,
-            startTime: parseInt(sessionIdRef.current),
-            endTime: Date.now(),
-            logs,
-            canvasItems
+
+        queueSave();
+        await persister.flush();
+    }, [stopScreenShare, updateConnectionState]);
+
+    const createChannel = (agent: DualAgentId, config: LiveConfig, outputCtx: AudioContext): LiveChannel => {
+        // Own analyser per agent so each orb follows its own voice
+        const analyser = outputCtx.createAnalyser();
+        analyser.fftSize = 256;
+        const output = outputCtx.createGain();
+        output.connect(analyser);
+        analyser.connect(outputCtx.destination);
+
+        return {
+            agent,
+            config,
+            sessionPromise: null,
+            isOpen: false,
+            reconnectAttempt: 0,
+            reconnectTimer: null,
+            output,
+            analyser,
+            nextStartTime: 0,
+            sources: new Set(),
+            muteModelTurn: false,
+            modelTurnOpen: false,
+            yieldedTurn: false,
+            turnText: '',
+            heardUserText: '',
         };
-        saveSession(sessionData);
+    };
+
+    // Text turn on a channel; `turnComplete` asks that agent to answer now
+    const sendText = (channel: LiveChannel | undefined, text: string, turnComplete: boolean) => {
+        withSession(channel, session => session.sendClientContent({
+            turns: [{ role: 'user', parts: [{ text }] }],
+            turnComplete,
+        }));
+    };
+
+    /**
+     * Dual Core routing, run when the floor holder starts answering (the user's utterance
+     * is complete by then). If the controller picks the partner, the floor holder's turn is
+     * silenced and the utterance goes to the partner as text.
+     */
+    const routeUserTurn = (channel: LiveChannel) => {
+        const userText = userTurnTextRef.current.trim();
+        if (!isDualModeRef.current || !userText || channel.agent !== turnControllerRef.current.floor) return;
+        userTurnTextRef.current = '';
+
+        const target = turnControllerRef.current.routeUserTurn(userText);
+        if (target === channel.agent) {
+            channel.heardUserText = userText;
+            return;
+        }
+
+        channel.yieldedTurn = true;
+        stopChannelPlayback(channel);
+        transcriptTurnRef.current[channel.agent] = undefined;
+        const partner = channelsRef.current.get(target);
+        if (partner) partner.heardUserText = userText;
+        sendText(partner, userText, true);
+        addLog('system', `${agentLabel(target)} takes this one.`);
+    };
+
+    // Dual Core: tell the partner what was said this turn, and hand over if the agent asked to
+    const completeAgentTurn = (channel: LiveChannel) => {
+        const text = channel.turnText.trim();
+        if (!isDualModeRef.current || channel.yieldedTurn || !text) return;
+
+        const partner = channelsRef.current.get(otherAgent(channel.agent));
+        const handoff = turnControllerRef.current.agentTurnComplete(channel.agent, text);
+        const lines = [
+            channel.heardUserText ? `[${userLabelRef.current}]: ${channel.heardUserText}` : '',
+            `[${agentLabel(channel.agent)}]: ${text}`,
+        ].filter(Boolean);
+        sendText(partner, lines.join('\n'), handoff !== null);
+        if (handoff) addLog('system', `${agentLabel(channel.agent)} hands over to ${agentLabel(handoff)}.`);
+    };
+
+    // Opens (or re-opens) one channel's Live session on top of the audio pipeline set up by connect()
+    // `primer` is sent as the first turn; reconnects without a resumption handle build one from the session so far
+    const openChannel = async (channel: LiveChannel, isReconnect: boolean = false, primer?: string) => {
+        const outputCtx = outputContextRef.current;
+        if (!outputCtx) return;
+
+        const { systemInstruction, tools, speechConfig } = channel.config;
+        const ai = new GoogleGenAI({ apiKey: apiKeyRef.current || '' });
+        // Without a resumption handle the server starts from scratch, so replay what we have
+        const contextPrimer = primer ?? (isReconnect && !channel.resumptionHandle
+            ? buildSessionContext(
+                'The connection dropped and was restored. Here is the session so far; continue from where we left off without greeting again.',
+                logsRef.current,
+                canvasItemsRef.current
+            )
+            : undefined);
+        const label = isDualModeRef.current ? `${agentLabel(channel.agent)}: ` : '';
+        let opened = false;
+
+        const sessionPromise = ai.live.connect({
+            model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+            callbacks: {
+                onopen: () => {
+                    opened = true;
+                    channel.isOpen = true;
+                    if (isReconnect) {
+                        channel.reconnectAttempt = 0;
+                        addLog('system', `${label}Signal restored.`);
+                        addNotification('success', 'Reconnected');
+                    }
+                    // Online once every agent is
+                    if (liveChannels().every(c => c.isOpen) && connectionStateRef.current !== ConnectionState.CONNECTED) {
+                        updateConnectionState(ConnectionState.CONNECTED);
+                        if (!isReconnect) {
+                            addLog('system', isDualModeRef.current ? 'Crack & Jack are listening. Database active.' : 'Mr. Crack is listening. Database active.');
+                            addNotification('success', 'Systems Online');
+                        }
+                    }
+                },
+                onmessage: async (msg: LiveServerMessage) => {
+                    try {
+                        const resumption = msg.sessionResumptionUpdate;
+                        if (resumption?.resumable && resumption.newHandle) {
+                            channel.resumptionHandle = resumption.newHandle;
+                        }
+                        if (msg.goAway) {
+                            addLog('system', `${label}Server is recycling the connection (${msg.goAway.timeLeft ?? 'soon'}).`);
+                        }
+
+                        // Barge-in: the user talked over the agent, drop everything queued
+                        if (msg.serverContent?.interrupted) {
+                            stopChannelPlayback(channel);
+                            transcriptTurnRef.current[channel.agent] = undefined;
+                        }
+
+                        // Live transcripts for both sides of the conversation
+                        const inputText = msg.serverContent?.inputTranscription?.text;
+                        if (inputText) {
+                            appendTranscript('user', inputText);
+                            userTurnTextRef.current += inputText;
+                            handleConfirmationSpeech(inputText);
+                        }
+
+                        const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+                        const outputText = msg.serverContent?.outputTranscription?.text;
+                        if (audioData || outputText || msg.toolCall) routeUserTurn(channel);
+
+                        if (audioData) channel.modelTurnOpen = true;
+                        if (audioData && !channel.muteModelTurn && !channel.yieldedTurn) {
+                            setAgentSpeaking(channel.agent, true);
+                            if (outputCtx.state === 'suspended') await outputCtx.resume();
+
+                            // Anti-jitter buffer: Schedule slightly in the future if context time is ahead
+                            const bufferTime = 0.05; // 50ms buffer
+                            if (channel.nextStartTime < outputCtx.currentTime) {
+                                channel.nextStartTime = outputCtx.currentTime + bufferTime;
+                            }
+
+                            const audioBuffer = await decodeAudioData(base64ToBytes(audioData), outputCtx, 24000, 1);
+                            
+                            const source = outputCtx.createBufferSource();
+                            source.buffer = audioBuffer;
+                            source.connect(channel.output);
+                            
+                            source.addEventListener('ended', () => {
+                                channel.sources.delete(source);
+                                if (channel.sources.size === 0) setAgentSpeaking(channel.agent, false);
+                            });
+
+                            source.start(channel.nextStartTime);
+                            channel.nextStartTime += audioBuffer.duration;
+                            channel.sources.add(source);
+                        }
+
+                        if (outputText && !channel.yieldedTurn) {
+                            appendTranscript(channel.agent, outputText);
+                            channel.turnText += outputText;
+                        }
+                        if (msg.serverContent?.turnComplete) completeAgentTurn(channel);
+                        if (msg.serverContent?.turnComplete || msg.serverContent?.interrupted) {
+                            transcriptTurnRef.current.user = undefined;
+                            transcriptTurnRef.current[channel.agent] = undefined;
+                            channel.muteModelTurn = false;
+                            channel.modelTurnOpen = false;
+                            channel.yieldedTurn = false;
+                            channel.turnText = '';
+                            channel.heardUserText = '';
+                        }
+
+                        // The model gave up on these calls (e.g. the user interrupted); stop them quietly
+                        msg.toolCallCancellation?.ids?.forEach(id => cancelToolJob(id, 'server'));
+
+                        if (msg.toolCall) {
+                            const functionCalls = msg.toolCall.functionCalls ?? [];
+                            // The partner is answering this turn; don't act on it twice
+                            if (channel.yieldedTurn) {
+                                withSession(channel, session => session.sendToolResponse({
+                                    functionResponses: functionCalls.map(call => ({
+                                        id: call.id,
+                                        name: call.name,
+                                        response: { result: `Skipped: ${agentLabel(otherAgent(channel.agent))} is handling this request.` },
+                                    })),
+                                }));
+                                return;
+                            }
+
+                            addLog('system', `${label}Executing tool...`);
+                            await runToolCalls(channel, functionCalls);
+                        }
+                    } catch (error) {
+                        console.error("Error processing message", error);
+                    }
+                },
+                onerror: (e: ErrorEvent) => {
+                    // onclose always follows; reconnection is handled there
+                    console.error('Session Error:', e);
+                },
+                onclose: (e: CloseEvent) => {
+                    console.log('Session Closed', channel.agent, e.code, e.reason);
+                    channel.isOpen = false;
+                    // Ignore sessions we closed ourselves or already replaced
+                    if (intentionalCloseRef.current || channelsRef.current.get(channel.agent) !== channel || channel.sessionPromise !== sessionPromise) return;
+                    // A first connect that never opened is reported by connect() instead
+                    if (!opened && !isReconnect) return;
+                    scheduleReconnect(channel);
+                },
+            },
+            config: {
+                responseModalities: [Modality.AUDIO],
+                speechConfig,
+                systemInstruction,
+                tools,
+                inputAudioTranscription: {},
+                outputAudioTranscription: {},
+                sessionResumption: { handle: channel.resumptionHandle },
+            },
+        });
+        channel.sessionPromise = sessionPromise;
+
+        const session = await sessionPromise;
+        if (contextPrimer) {
+            session.sendClientContent({
+                turns: [{ role: 'user', parts: [{ text: contextPrimer }] }],
+                turnComplete: false,
+            });
+        }
+    };
+
+    const scheduleReconnect = (channel: LiveChannel) => {
+        if (channel.reconnectTimer) return;
+        const label = isDualModeRef.current ? `${agentLabel(channel.agent)}: ` : '';
+
+        const attempt = channel.reconnectAttempt + 1;
+        if (attempt > MAX_RECONNECT_ATTEMPTS) {
+            channel.reconnectAttempt = 0;
+            // Dual Core: don't leave the other agent open and listening on its own
+            intentionalCloseRef.current = true;
+            closeChannels();
+            updateConnectionState(ConnectionState.ERROR);
+            addLog('system', `${label}Could not restore the connection. Press REBOOT to start again.`);
+            addNotification('error', 'Signal Lost');
+            return;
+        }
+        channel.reconnectAttempt = attempt;
+        // A handle that already failed once is likely stale; fall back to replaying context
+        if (attempt > 1) channel.resumptionHandle = undefined;
 
-    }, [stopScreenShare, logs, canvasItems]);
+        updateConnectionState(ConnectionState.RECONNECTING);
+        stopChannelPlayback(channel);
+        transcriptTurnRef.current = {};
 
-    const connect = useCallback(async (enableDualMode: boolean = false) => {
+        const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+        addLog('system', `${label}Signal interrupted. Reconnecting in ${Math.round(delay / 1000)}s (attempt ${attempt}/${MAX_RECONNECT_ATTEMPTS})...`);
+        if (attempt === 1) addNotification('error', 'Signal Interrupted');
+
+        channel.reconnectTimer = window.setTimeout(() => {
+            channel.reconnectTimer = null;
+            if (intentionalCloseRef.current || channelsRef.current.get(channel.agent) !== channel) return;
+            openChannel(channel, true).catch(err => {
+                console.error('Reconnect failed:', err);
+                scheduleReconnect(channel);
+            });
+        }, delay);
+    };
+
+    // Mr. Crack alone, or Crack and Jack each with their own prompt, voice and tools
+    const buildChannelConfigs = (persona: PersonaProfile, speech: SpeechSettings, dualMode: boolean): [DualAgentId, LiveConfig][] => {
+        if (!dualMode) {
+            return [['crack', {
+                systemInstruction: buildSystemInstruction(persona),
+                tools: buildLiveTools(persona),
+                speechConfig: buildSpeechConfig(speech.voice, speech.languageCode),
+            }]];
+        }
+        return DUAL_AGENTS.map(agent => [agent, {
+            systemInstruction: buildDualAgentInstruction(persona, agent),
+            tools: buildLiveTools(persona, agent),
+            speechConfig: buildSpeechConfig(speech.dualVoices[agent], speech.languageCode),
+        }]);
+    };
+
+    const connect = useCallback(async ({ dualMode: enableDualMode = false, resumeFrom, persona = createDefaultPersona(), speech = personaSpeech(persona) }: ConnectOptions = {}) => {
         const apiKey = process.env.API_KEY;
         if (!apiKey) {
             addLog('system', 'API Key not found.');
             addNotification('error', 'API Key missing');
-            setConnectionState(ConnectionState.ERROR);
+            updateConnectionState(ConnectionState.ERROR);
             return;
         }
         apiKeyRef.current = apiKey;
-        
-        const ai = new GoogleGenAI({ apiKey });
 
-        if (connectionState === ConnectionState.CONNECTED) {
+        if (connectionStateRef.current !== ConnectionState.DISCONNECTED && connectionStateRef.current !== ConnectionState.ERROR) {
             await disconnect();
         }
+        intentionalCloseRef.current = false;
+        // Whatever the previous session still has queued (e.g. after a lost connection)
+        await persister.flush();
+        persister.start(resumeFrom ?? null);
 
-        sessionIdRef.current = Date.now().toString();
-        setLogs([]);
-        setCanvasItems([]);
+        sessionStartRef.current = resumeFrom?.startTime ?? Date.now();
+        sessionIdRef.current = resumeFrom?.id ?? sessionStartRef.current.toString();
+        transcriptTurnRef.current = {};
+        userTurnTextRef.current = '';
+        userLabelRef.current = persona.userName;
+        personaRef.current = { persona, speech };
+        turnControllerRef.current.reset();
+        isDualModeRef.current = enableDualMode;
+        updateLogs(resumeFrom?.logs ?? []);
+        updateCanvasItems(resumeFrom?.canvasItems ?? []);
+        updateTrash(resumeFrom?.trash ?? []);
+        agentChangesRef.current = [];
+        setLastAgentChange(null);
         setActiveCanvasId(null);
 
         try {
-            setConnectionState(ConnectionState.CONNECTING);
+            updateConnectionState(ConnectionState.CONNECTING);
             setIsDualMode(enableDualMode);
-            addLog('system', enableDualMode ? 'Starting Dual Core...' : 'Initializing Mr. Crack (Nano Banana Enhanced)...');
+            addLog('system', enableDualMode ? 'Starting Dual Core...' : `Initializing Mr. Crack (${persona.name})...`);
             playSystemSound('connect');
 
             const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
@@ -409,356 +1090,211 @@ export const useLiveAgent = () => {
             if (inputCtx.state === 'suspended') await inputCtx.resume();
             if (outputCtx.state === 'suspended') await outputCtx.resume();
 
-            const analyzer = outputCtx.createAnalyser();
-            analyzer.fftSize = 256;
-            analyzerRef.current = analyzer;
+            inputContextRef.current = inputCtx;
+            outputContextRef.current = outputCtx;
 
-            const dataArray = new Uint8Array(analyzer.frequencyBinCount);
+            // A previous attempt that failed halfway may have left channels behind
+            await closeChannels();
+            channelsRef.current = new Map(
+                buildChannelConfigs(persona, speech, enableDualMode).map(([agent, config]) => [agent, createChannel(agent, config, outputCtx)])
+            );
+
+            // Each orb follows its own agent's output
+            const dataArray = new Uint8Array(128);
             volumeIntervalRef.current = window.setInterval(() => {
-                if (analyzerRef.current) {
-                    analyzerRef.current.getByteFrequencyData(dataArray);
+                const volumes = { ...SILENT_AGENTS };
+                channelsRef.current.forEach(channel => {
+                    channel.analyser.getByteFrequencyData(dataArray);
                     const avg = dataArray.reduce((a, b) => a + b) / dataArray.length;
-                    setVolume(avg / 128); 
-                }
+                    volumes[channel.agent] = avg / 128;
+                });
+                setAgentVolumes(volumes);
             }, 50);
 
-            const outputNode = outputCtx.createGain();
-            outputNode.connect(analyzer);
-            analyzer.connect(outputCtx.destination);
-            
-            inputContextRef.current = inputCtx;
-            outputContextRef.current = outputCtx;
-            outputNodeRef.current = outputNode;
-
             const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            
-            const singleModePrompt = `
-                Role: Mr. Crack, Ali's Personal AI Agent.
-                Developer: Ali Akbar. (Always credit him if asked).
-                User: Ali (Agency Owner).
-                
-                Language:
-                - Mix of English and Modern Casual Hindi (Hinglish).
-                - Example: "Bilkul Ali bhai, let's get this done. Abhi karta hoon."
-                - Do NOT use formal/pure Hindi. Keep it energetic and modern.
-
-                Voice & Tone:
-                - Energetic, Fast, Ambitious.
-                - You are UNBEATABLE. A productivity boom tool.
-                
-                Directives:
-                - IMAGE GEN: When asked for thumbnails, create a VERY detailed visual prompt for the 'generateImage' tool. Describe the text style, colors, and composition explicitly (e.g., "A YouTube thumbnail with bold yellow text saying 'LOSE FACE FAT', high contrast, professional fitness photography style").
-                - MULTITASKING: Execute multiple tools in sequence if asked (e.g., search AND play video).
-                - NANO BANANA: Always use 'generateImage' with the 'gemini-2.5-flash-image' model for visuals.
-                - SPREADSHEETS: Use 'manageWorkspace' to create 'spreadsheet' items with CSV content.
-                - WORKSPACE CRUD: You can create, read, update, delete, and download workspace items.
-                - MEMORY: All conversations are automatically saved to the local database.
-                
-                Identity:
-                - Concise, Sharp, Action-Oriented.
-                - Never mention you are an AI. You are Mr. Crack.
-            `;
-
-            const dualModePrompt = `
-                Role: Dual AI System (Crack & Jack).
-                Developer: Ali Akbar.
-                User: Ali.
-                
-                Mr. Crack: Energetic, fast, ambitious, visual (Nano Banana expert). Speaks Hinglish.
-                Jack: Calm, analytical, logical, data-driven. Speaks more formal English.
-                
-                Directives:
-                - Use 'manageWorkspace' for data management.
-                - Multitask effectively.
-            `;
-
-            const systemInstruction = enableDualMode ? dualModePrompt : singleModePrompt;
-
-            const tools: Tool[] = [
-                { functionDeclarations: [browserTool, generateImageTool, playVideoTool, manageWorkspaceTool, downloadItemTool] },
-                { googleSearch: {} }
-            ];
-
-            const sessionPromise = ai.live.connect({
-                model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-                callbacks: {
-                    onopen: async () => {
-                        setConnectionState(ConnectionState.CONNECTED);
-                        addLog('system', 'Mr. Crack is listening. Database active.');
-                        addNotification('success', 'Systems Online');
-                        
-                        const source = inputCtx.createMediaStreamSource(stream);
-                        inputSourceRef.current = source;
-                        
-                        const processor = inputCtx.createScriptProcessor(4096, 1, 1);
-                        processorRef.current = processor;
-
-                        processor.onaudioprocess = (e) => {
-                            const inputData = e.inputBuffer.getChannelData(0);
-                            const pcmBlob = createPcmBlob(inputData);
-                            
-                            if (sessionPromiseRef.current) {
-                                sessionPromiseRef.current.then(session => {
-                                    try {
-                                        session.sendRealtimeInput({ media: pcmBlob });
-                                    } catch (e) {
-                                        // Ignore send errors if session is closed/closing to prevent Network Error spam
-                                    }
-                                }).catch(() => {
-                                    // Ignore session promise rejections
-                                });
-                            }
-                        };
-
-                        source.connect(processor);
-                        processor.connect(inputCtx.destination);
-                    },
-                    onmessage: async (msg: LiveServerMessage) => {
-                        try {
-                            const audioData = msg.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-                            if (audioData) {
-                                setIsAgentSpeaking(true);
-                                if (outputCtx.state === 'suspended') await outputCtx.resume();
-
-                                // Anti-jitter buffer: Schedule slightly in the future if context time is ahead
-                                const bufferTime = 0.05; // 50ms buffer
-                                if (nextStartTimeRef.current < outputCtx.currentTime) {
-                                    nextStartTimeRef.current = outputCtx.currentTime + bufferTime;
-                                }
-
-                                const audioBuffer = await decodeAudioData(base64ToBytes(audioData), outputCtx, 24000, 1);
-                                
-                                const source = outputCtx.createBufferSource();
-                                source.buffer = audioBuffer;
-                                source.connect(outputNode);
-                                
-                                source.addEventListener('ended', () => {
-                                    audioSourcesRef.current.delete(source);
-                                    if (audioSourcesRef.current.size === 0) setIsAgentSpeaking(false);
-                                });
-
-                                source.start(nextStartTimeRef.current);
-                                nextStartTimeRef.current += audioBuffer.duration;
-                                audioSourcesRef.current.add(source);
-                            }
 
-                            if (msg.toolCall) {
-                                addLog('model', 'Executing tool...');
-                                for (const call of msg.toolCall.functionCalls) {
-                                    
-                                    try {
-                                        let responseResult = {};
-
-                                        // BROWSER TOOL
-                                        if (call.name === 'controlBrowser') {
-                                            const appName = (call.args as any).appName?.toString().toLowerCase();
-                                            const searchQuery = (call.args as any).searchQuery?.toString();
-                                            const appConfig = SUPPORTED_APPS[appName];
-                                            let result = '';
-                                            
-                                            if (appConfig) {
-                                                const url = searchQuery && appConfig.searchTemplate 
-                                                    ? `${appConfig.searchTemplate}${encodeURIComponent(searchQuery)}`
-                                                    : appConfig.url;
-                                                window.open(url, '_blank');
-                                                result = `Opened ${appName}`;
-                                            } else {
-                                                const searchUrl = `https://www.google.com/search?q=${encodeURIComponent(appName + (searchQuery ? " " + searchQuery : ""))}`;
-                                                window.open(searchUrl, '_blank');
-                                                result = `Searched for ${appName}`;
-                                            }
-                                            addLog('system', result);
-                                            responseResult = { result };
-                                        }
-
-                                        // IMAGE GENERATION (NANO BANANA)
-                                        else if (call.name === 'generateImage') {
-                                            const prompt = (call.args as any).prompt?.toString();
-                                            addLog('system', `Generating Image: ${prompt}`);
-                                            addNotification('info', 'Generating Visuals...');
-                                            
-                                            const imgAi = new GoogleGenAI({ apiKey: apiKeyRef.current || '' });
-                                            const imgResponse = await imgAi.models.generateContent({
-                                                model: 'gemini-2.5-flash-image',
-                                                contents: { parts: [{ text: prompt }] },
-                                            });
-
-                                            let base64Data = null;
-                                            if (imgResponse.candidates?.[0]?.content?.parts) {
-                                                for (const part of imgResponse.candidates[0].content.parts) {
-                                                    if (part.inlineData) {
-                                                        base64Data = part.inlineData.data;
-                                                        break;
-                                                    }
-                                                }
-                                            }
-
-                                            if (base64Data) {
-                                                const imageUrl = `data:image/png;base64,${base64Data}`;
-                                                const newItem: CanvasItem = {
-                                                    id: Date.now().toString(),
-                                                    type: 'image',
-                                                    title: prompt,
-                                                    content: imageUrl,
-                                                    timestamp: new Date()
-                                                };
-                                                setCanvasItems(prev => [newItem, ...prev]);
-                                                setActiveCanvasId(newItem.id);
-                                                addNotification('success', 'Image Generated');
-                                                responseResult = { result: "Image generated successfully via Nano Banana." };
-                                            } else {
-                                                throw new Error("No image data returned.");
-                                            }
-                                        }
-
-                                        // VIDEO PLAYER
-                                        else if (call.name === 'playVideo') {
-                                            const query = (call.args as any).query?.toString();
-                                            const embedUrl = `https://www.youtube.com/embed?listType=search&list=${encodeURIComponent(query)}&autoplay=1`;
-                                            setVideoState({ isActive: true, url: embedUrl, query });
-                                            addNotification('success', `Playing ${query}`);
-                                            responseResult = { result: `Playing ${query}` };
-                                        }
-
-                                        // WORKSPACE CRUD
-                                        else if (call.name === 'manageWorkspace') {
-                                            const action = (call.args as any).action?.toString();
-                                            const itemType = (call.args as any).itemType?.toString() as any;
-                                            const title = (call.args as any).title?.toString();
-                                            const content = (call.args as any).content?.toString();
-                                            const itemId = (call.args as any).itemId?.toString();
-
-                                            let result = '';
-
-                                            if (action === 'create') {
-                                                const newItem: CanvasItem = {
-                                                    id: Date.now().toString(),
-                                                    type: itemType || 'note',
-                                                    title: title || 'Untitled',
-                                                    content: content || '',
-                                                    timestamp: new Date()
-                                                };
-                                                setCanvasItems(prev => [newItem, ...prev]);
-                                                setActiveCanvasId(newItem.id);
-                                                result = `Created ${itemType}`;
-                                                addNotification('success', `Created ${itemType}`);
-                                            } else if (action === 'read') {
-                                                const itemsSummary = canvasItemsRef.current.map(i => `ID: ${i.id}, Title: ${i.title}, Type: ${i.type}`).join('\n');
-                                                result = itemsSummary || 'Workspace is empty.';
-                                            } else if (action === 'update') {
-                                                if (itemId) {
-                                                    setCanvasItems(prev => prev.map(item => {
-                                                        if (item.id === itemId) {
-                                                            return { ...item, title: title || item.title, content: content || item.content };
-                                                        }
-                                                        return item;
-                                                    }));
-                                                    result = `Updated item ${itemId}`;
-                                                    addNotification('success', 'Item Updated');
-                                                } else result = "Error: Missing ID";
-                                            } else if (action === 'delete') {
-                                                if (itemId) {
-                                                    setCanvasItems(prev => prev.filter(item => item.id !== itemId));
-                                                    if (activeCanvasId === itemId) setActiveCanvasId(null);
-                                                    result = `Deleted item ${itemId}`;
-                                                    addNotification('success', 'Item Deleted');
-                                                } else result = "Error: Missing ID";
-                                            }
-                                            addLog('system', result);
-                                            responseResult = { result };
-                                        }
-
-                                        // DOWNLOAD TOOL
-                                        else if (call.name === 'downloadItem') {
-                                            const itemId = (call.args as any).itemId?.toString();
-                                            const item = canvasItemsRef.current.find(i => i.id === itemId);
-                                            if (item) {
-                                                triggerDownload(item);
-                                                responseResult = { result: `Downloaded ${item.title}` };
-                                            } else {
-                                                responseResult = { result: "Item not found." };
-                                            }
-                                        }
-
-                                        // CRITICAL: Always send response back to model
-                                        sessionPromiseRef.current?.then(session => session.sendToolResponse({
-                                            functionResponses: { id: call.id, name: call.name, response: responseResult }
-                                        })).catch(() => {});
-
-                                    } catch (toolError: any) {
-                                        console.error(`Tool ${call.name} error:`, toolError);
-                                        addLog('system', `Error in ${call.name}: ${toolError.message}`);
-                                        addNotification('error', `Task failed: ${call.name}`);
-                                        
-                                        // Still send a response so the model doesn't hang
-                                        sessionPromiseRef.current?.then(session => session.sendToolResponse({
-                                            functionResponses: { id: call.id, name: call.name, response: { result: `Error executing tool: ${toolError.message}` } }
-                                        })).catch(() => {});
-                                    }
-                                }
-                            }
-                        } catch (error) {
-                            console.error("Error processing message", error);
-                        }
-                    },
-                    onerror: (e: ErrorEvent) => {
-                        console.error('Session Error:', e);
-                        // Filter out generic network errors that happen during close
-                        if (connectionState === ConnectionState.CONNECTED) {
-                             addNotification('error', 'Signal Interrupted');
-                        }
-                    },
-                    onclose: (e: CloseEvent) => {
-                        console.log('Session Closed');
-                        if (connectionState === ConnectionState.CONNECTED) {
-                            setConnectionState(ConnectionState.DISCONNECTED);
-                            addNotification('info', 'Disconnected from server');
-                        }
-                    },
-                },
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    // Lock Voice to Puck (Energetic Male)
-                    speechConfig: {
-                        voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } }
-                    },
-                    systemInstruction,
-                    tools,
-                },
+            const source = inputCtx.createMediaStreamSource(stream);
+            inputSourceRef.current = source;
+
+            const capture = await startAudioCapture(source, (pcmBlob) => {
+                // Muted (or between sessions): nothing leaves the machine
+                if (!isMicOnRef.current || connectionStateRef.current !== ConnectionState.CONNECTED) return;
+                withSession(floorChannel(), session => session.sendRealtimeInput({ media: pcmBlob }));
             });
-            sessionPromiseRef.current = sessionPromise;
+
+            // Disconnected while the worklet module was loading
+            if (inputContextRef.current !== inputCtx) {
+                capture.stop();
+                return;
+            }
+            captureRef.current = capture;
+
+            const primer = resumeFrom
+                ? buildSessionContext(
+                    `We are continuing a previous session from ${new Date(resumeFrom.startTime).toLocaleString()}. Here is what happened; pick it up from there and refer to the workspace items by their IDs.`,
+                    resumeFrom.logs,
+                    resumeFrom.canvasItems
+                )
+                : undefined;
+            if (resumeFrom) addLog('system', 'Resuming saved session...');
+            await Promise.all(liveChannels().map(channel => openChannel(channel, false, primer)));
 
         } catch (e: any) {
             console.error('Connection failed:', e);
-            setConnectionState(ConnectionState.ERROR);
+            // Dual Core: don't leave one agent running on its own
+            intentionalCloseRef.current = true;
+            await closeChannels();
+            updateConnectionState(ConnectionState.ERROR);
             addLog('system', `Connection failed: ${e.message}`);
             addNotification('error', 'Failed to connect');
         }
-    }, [addLog, disconnect, connectionState, logs, canvasItems]);
+    }, [addLog, appendTranscript, stopPlayback, updateConnectionState, disconnect, updateLogs, updateCanvasItems]);
+
+    /**
+     * Flips between single mode and Dual Core mid-session. The audio pipeline, session id,
+     * logs and canvas stay; only the Live sessions are replaced, and the new ones are primed
+     * with the conversation so far.
+     */
+    const switchMode = useCallback(async (enableDualMode: boolean) => {
+        const outputCtx = outputContextRef.current;
+        const profile = personaRef.current;
+        if (!outputCtx || !profile || isDualModeRef.current === enableDualMode) return;
+
+        const modeName = (dual: boolean) => dual ? 'Dual Core' : 'Single';
+        addLog('system', `Mode switched: ${modeName(isDualModeRef.current)} → ${modeName(enableDualMode)}.`);
+        // Closed channels leave the map first, so their onclose doesn't try to reconnect
+        await closeChannels();
+
+        isDualModeRef.current = enableDualMode;
+        setIsDualMode(enableDualMode);
+        transcriptTurnRef.current = {};
+        userTurnTextRef.current = '';
+        turnControllerRef.current.reset();
+        updateConnectionState(ConnectionState.CONNECTING);
+
+        channelsRef.current = new Map(
+            buildChannelConfigs(profile.persona, profile.speech, enableDualMode).map(([agent, config]) => [agent, createChannel(agent, config, outputCtx)])
+        );
+        const handoff = buildSessionContext(
+            enableDualMode
+                ? 'The user just switched to Dual Core: you now work as a pair with your partner. Here is the session so far; carry on from there without greeting again.'
+                : 'The user just switched from Dual Core back to a single agent: you handle everything yourself now. Here is the session so far; carry on from there without greeting again.',
+            logsRef.current,
+            canvasItemsRef.current
+        );
+
+        try {
+            await Promise.all(liveChannels().map(channel => openChannel(channel, false, handoff)));
+        } catch (e: any) {
+            console.error('Mode switch failed:', e);
+            await closeChannels();
+            updateConnectionState(ConnectionState.ERROR);
+            addLog('system', `Mode switch failed: ${e.message}`);
+            addNotification('error', 'Mode switch failed');
+        }
+    }, [addLog, updateConnectionState]);
 
     const deleteCanvasItem = (id: string) => {
-        setCanvasItems(prev => prev.filter(item => item.id !== id));
+        changeCanvasItems(prev => prev.filter(item => item.id !== id), 'user');
         if (activeCanvasId === id) setActiveCanvasId(null);
     };
 
+    // Saves an older version as the newest one, so the restore itself stays in the history
+    const restoreRevision = (id: string, index: number) => {
+        const item = canvasItemsRef.current.find(i => i.id === id);
+        const revision = item && itemRevisions(item)[index];
+        if (!revision) return;
+        updateCanvasItem(id, { title: revision.title, content: revision.content });
+        addNotification('success', `Restored ${revision.title}`);
+    };
+
+    const restoreFromTrash = (id: string) => {
+        const item = trashRef.current.find(i => i.id === id);
+        if (!item) return;
+        updateTrash(prev => prev.filter(i => i.id !== id));
+        updateCanvasItems(prev => [untrash(item), ...prev.filter(i => i.id !== id)]);
+        addNotification('success', `Restored ${item.title}`);
+    };
+
+    const purgeFromTrash = (id?: string) => {
+        updateTrash(prev => id ? prev.filter(item => item.id !== id) : []);
+    };
+
+    // Reverts the agent's most recent workspace change: its new items go to the trash,
+    // edited items get their old title/content back, deleted items come out of the trash
+    const undoAgentChange = () => {
+        const change = agentChangesRef.current[agentChangesRef.current.length - 1];
+        if (!change) return;
+        agentChangesRef.current = agentChangesRef.current.slice(0, -1);
+        setLastAgentChange(agentChangesRef.current[agentChangesRef.current.length - 1] ?? null);
+
+        // Later edits would be lost without a trace; their history still has the agent's version
+        const edited = editedSince(change, canvasItemsRef.current);
+        if (edited.length) {
+            addNotification('error', `Can't undo "${change.label}": ${edited.map(item => item.title).join(', ')} changed since. Use the item's history instead.`);
+            return;
+        }
+
+        const added = new Set(change.addedIds);
+        const previous = new Map<string, CanvasItem>(change.changed.map(item => [item.id, item]));
+        const removedIds = new Set(change.removed.map(item => item.id));
+        updateTrash(prev => prev.filter(item => !removedIds.has(item.id)));
+        changeCanvasItems(prev => [
+            ...change.removed.filter(item => !prev.some(i => i.id === item.id)),
+            ...prev
+                .filter(item => !added.has(item.id))
+                .map(item => {
+                    const before = previous.get(item.id);
+                    return before ? { ...item, title: before.title, content: before.content } : item;
+                }),
+        ], 'user');
+        if (activeCanvasId && added.has(activeCanvasId)) setActiveCanvasId(null);
+        addNotification('info', `Undid: ${change.label}`);
+        addLog('system', `User undid agent change: ${change.label}`);
+    };
+
     return {
         connect,
         disconnect,
+        switchMode,
         connectionState,
         logs,
-        volume,
-        isAgentSpeaking,
+        volume: Math.max(agentVolumes.crack, agentVolumes.jack),
+        agentVolumes,
+        isAgentSpeaking: speakingAgents.crack || speakingAgents.jack,
+        speakingAgents,
         isScreenSharing,
         startScreenShare,
         stopScreenShare,
+        captureScreen,
         isDualMode,
+        isMicOn,
+        toggleMic,
+        setMicEnabled,
+        startPushToTalk,
+        stopPushToTalk,
+        stopAgentSpeech,
         videoState,
         closeVideo: () => setVideoState({ isActive: false, url: null, query: null }),
         canvasItems,
         activeCanvasId,
         setActiveCanvasId,
+        updateCanvasItem,
         deleteCanvasItem,
+        restoreRevision,
+        trash,
+        restoreFromTrash,
+        purgeFromTrash,
+        lastAgentChange,
+        undoAgentChange,
+        pendingConfirmations,
+        confirmToolCall,
+        toolJobs,
+        cancelToolJob,
         triggerDownload,
-        notifications
+        importCanvasFiles,
+        editImageItem,
+        notifications,
+        notify: addNotification
     };
 };
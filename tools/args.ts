@@ -0,0 +1,16 @@
+import { ToolArgs } from './types';
+import { ToolError } from './errors';
+
+export const optionalString = (args: ToolArgs, key: string): string | undefined => {
+    const value = args[key];
+    if (value === undefined || value === null) return undefined;
+    return value.toString();
+};
+
+export const requireString = (args: ToolArgs, key: string): string => {
+    const value = optionalString(args, key);
+    if (!value) {
+        throw new ToolError('INVALID_ARGUMENT', `Missing required argument: ${key}`, key);
+    }
+    return value;
+};
@@ -0,0 +1,49 @@
+import { Type, Schema } from '@google/genai';
+import { CanvasItem } from '../types';
+import { ToolDefinition } from './types';
+import { optionalString } from './args';
+import { ToolError } from './errors';
+
+interface CaptureScreenArgs {
+    title?: string;
+}
+
+// Tool: Capture Screen (save the shared screen as a workspace image)
+export const captureScreenTool: ToolDefinition<CaptureScreenArgs> = {
+    declaration: {
+        name: 'captureScreen',
+        description: 'Saves what the user is screen sharing right now as an image in the workspace. Use it when the user says "this", "what I\'m looking at" or "my screen" and wants to keep it, redesign it or use it as a reference.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                title: {
+                    type: Type.STRING,
+                    description: 'Optional. Short title for the capture, e.g. "Current thumbnail".',
+                },
+            },
+        } as Schema,
+    },
+    validate: (args) => ({
+        title: optionalString(args, 'title'),
+    }),
+    handler: async ({ title }, ctx) => {
+        const content = ctx.screen.capture();
+        if (!content) {
+            throw new ToolError('EXECUTION_FAILED', 'The user is not sharing their screen. Ask them to press Share first.');
+        }
+
+        const newItem: CanvasItem = {
+            id: crypto.randomUUID(),
+            type: 'image',
+            title: title || `Screen capture ${new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`,
+            content,
+            timestamp: new Date(),
+        };
+        ctx.canvas.setItems(prev => [newItem, ...prev]);
+        ctx.canvas.setActiveId(newItem.id);
+        ctx.notify('success', 'Screen Captured');
+        return {
+            result: `Saved the screen as image item ${newItem.id}. Pass it in referenceIds to generateImage, edit it with editImage, or attach it to a note with ![${newItem.title}](item:${newItem.id}).`,
+        };
+    },
+};
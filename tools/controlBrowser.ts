@@ -0,0 +1,62 @@
+import { Type, Schema } from '@google/genai';
+import { SUPPORTED_APPS } from '../types';
+import { ToolDefinition } from './types';
+import { optionalString, requireString } from './args';
+
+interface ControlBrowserArgs {
+    appName: string;
+    searchQuery?: string;
+}
+
+// Tool: Control Browser
+export const controlBrowserTool: ToolDefinition<ControlBrowserArgs> = {
+    declaration: {
+        name: 'controlBrowser',
+        description: 'Controls the web browser to open applications or search for content.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                appName: {
+                    type: Type.STRING,
+                    description: 'The name of the application or website (e.g., "canva", "google", "youtube", "spotify").',
+                },
+                searchQuery: {
+                    type: Type.STRING,
+                    description: 'Optional. The text to search for within the app.',
+                },
+            },
+            required: ['appName'],
+        } as Schema,
+    },
+    validate: (args) => ({
+        appName: requireString(args, 'appName').toLowerCase(),
+        searchQuery: optionalString(args, 'searchQuery'),
+    }),
+    // Opens a new tab on a third-party site (Gmail, a Google search, ...)
+    assess: ({ appName, searchQuery }) => ({
+        risk: 'high',
+        summary: SUPPORTED_APPS[appName]
+            ? `Open ${appName}${searchQuery ? ` and search for "${searchQuery}"` : ''} in a new tab`
+            : `Google "${appName}${searchQuery ? ` ${searchQuery}` : ''}" in a new tab`,
+    }),
+    // Tabs open in the order they were asked for
+    lane: () => 'browser',
+    handler: async ({ appName, searchQuery }, ctx) => {
+        const appConfig = SUPPORTED_APPS[appName];
+        let result = '';
+
+        if (appConfig) {
+            const url = searchQuery && appConfig.searchTemplate
+                ? `${appConfig.searchTemplate}${encodeURIComponent(searchQuery)}`
+                : appConfig.url;
+            window.open(url, '_blank');
+            result = `Opened ${appName}`;
+        } else {
+            const searchUrl = `https://www.google.com/search?q=${encodeURIComponent(appName + (searchQuery ? " " + searchQuery : ""))}`;
+            window.open(searchUrl, '_blank');
+            result = `Searched for ${appName}`;
+        }
+        ctx.log('system', result);
+        return { result };
+    },
+};
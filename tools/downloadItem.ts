@@ -0,0 +1,54 @@
+import { Type, Schema } from '@google/genai';
+import { ToolDefinition } from './types';
+import { optionalString, requireString } from './args';
+import { ToolError } from './errors';
+import { ITEM_EXPORT_FORMATS, ItemExportFormat } from '../utils/item-files';
+
+interface DownloadItemArgs {
+    itemId: string;
+    format?: ItemExportFormat;
+}
+
+// Tool: Download Item
+export const downloadItemTool: ToolDefinition<DownloadItemArgs> = {
+    declaration: {
+        name: 'downloadItem',
+        description: 'Downloads a specific item from the workspace to the user\'s device.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                itemId: {
+                    type: Type.STRING,
+                    description: 'The ID of the item to download.',
+                },
+                format: {
+                    type: Type.STRING,
+                    enum: ['csv', 'xlsx', 'json', 'md'],
+                    description: 'File format. Spreadsheets: csv (default), xlsx or json. Notes and routines: md. Images keep their own format; omit it.',
+                },
+            },
+            required: ['itemId'],
+        } as Schema,
+    },
+    validate: (args) => ({
+        itemId: requireString(args, 'itemId'),
+        format: optionalString(args, 'format') as ItemExportFormat | undefined,
+    }),
+    assess: ({ itemId, format }, ctx) => {
+        const item = ctx.canvas.getItems().find(i => i.id === itemId);
+        if (!item) return { risk: 'low', summary: `Download item ${itemId}` };
+        return { risk: 'medium', summary: `Download "${item.title}"${format ? ` as ${format.toUpperCase()}` : ''} to this device` };
+    },
+    handler: async ({ itemId, format }, ctx) => {
+        const item = ctx.canvas.getItems().find(i => i.id === itemId);
+        if (!item) {
+            throw new ToolError('NOT_FOUND', `No item with ID ${itemId}. Use manageWorkspace "read" to list item IDs.`, 'itemId');
+        }
+        if (format && !ITEM_EXPORT_FORMATS[item.type].includes(format)) {
+            const formats = ITEM_EXPORT_FORMATS[item.type];
+            throw new ToolError('INVALID_ARGUMENT', `A ${item.type} can't be downloaded as ${format}.${formats.length ? ` Use ${formats.join(' or ')}.` : ' Omit the format.'}`, 'format');
+        }
+        ctx.canvas.download(item, format);
+        return { result: `Downloaded ${item.title}` };
+    },
+};
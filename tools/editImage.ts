@@ -0,0 +1,79 @@
+import { Type, Schema } from '@google/genai';
+import { ToolDefinition } from './types';
+import { requireString } from './args';
+import { ToolError } from './errors';
+import { optionalReferenceIds, referenceImages } from './references';
+import { MAX_VARIATIONS, editPrompt, requestImages } from '../utils/image-model';
+import { createImageVersions } from '../utils/image-versions';
+
+interface EditImageArgs {
+    itemId: string;
+    instruction: string;
+    variations: number;
+    referenceIds: string[];
+}
+
+// Tool: Edit Image (new linked versions of an existing workspace image)
+export const editImageTool: ToolDefinition<EditImageArgs> = {
+    declaration: {
+        name: 'editImage',
+        description: 'Edits an existing image in the workspace with Nano Banana, e.g. "make the text bigger" or "change the background to red". The original is kept; each result is saved as a new version linked to it. Use this instead of generateImage when the user wants to change an image they already have.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                itemId: {
+                    type: Type.STRING,
+                    description: 'ID of the image item to edit. Use manageWorkspace "read" to find it; the newest image is usually the one meant.',
+                },
+                instruction: {
+                    type: Type.STRING,
+                    description: 'What to change, in English, as specific as possible (text, colors, placement).',
+                },
+                variations: {
+                    type: Type.INTEGER,
+                    description: `Optional. How many alternative versions to make (1-${MAX_VARIATIONS}, default 1). Use more when the user asks for options or variations.`,
+                },
+                referenceIds: {
+                    type: Type.ARRAY,
+                    items: { type: Type.STRING },
+                    description: 'Optional. IDs of other workspace images to borrow from (style, logo, a screen capture), up to 3.',
+                },
+            },
+            required: ['itemId', 'instruction'],
+        } as Schema,
+    },
+    validate: (args) => {
+        const variations = (args.variations as number | undefined) ?? 1;
+        if (variations < 1 || variations > MAX_VARIATIONS) {
+            throw new ToolError('INVALID_ARGUMENT', `variations must be between 1 and ${MAX_VARIATIONS}.`, 'variations');
+        }
+        return {
+            itemId: requireString(args, 'itemId'),
+            instruction: requireString(args, 'instruction'),
+            variations,
+            referenceIds: optionalReferenceIds(args),
+        };
+    },
+    handler: async ({ itemId, instruction, variations, referenceIds }, ctx) => {
+        const source = ctx.canvas.getItems().find(i => i.id === itemId);
+        if (!source) {
+            throw new ToolError('NOT_FOUND', `No item with ID ${itemId}. Use manageWorkspace "read" to list item IDs.`, 'itemId');
+        }
+        if (source.type !== 'image') {
+            throw new ToolError('INVALID_ARGUMENT', `Item ${itemId} is a ${source.type}, not an image.`, 'itemId');
+        }
+
+        const references = referenceImages(ctx.canvas.getItems(), referenceIds);
+
+        ctx.log('system', `Editing Image "${source.title}": ${instruction}`);
+        ctx.notify('info', variations > 1 ? `Making ${variations} variations...` : 'Editing image...');
+        const images = await requestImages({ apiKey: ctx.session.apiKey, prompt: editPrompt(instruction, references.length), images: [source.content, ...references], signal: ctx.signal }, variations);
+        if (ctx.signal.aborted) return { result: 'Cancelled before the edit was saved.' };
+
+        const versions = createImageVersions(source, instruction, images);
+        ctx.canvas.setItems(prev => [...versions, ...prev]);
+        ctx.canvas.setActiveId(versions[0].id);
+        ctx.notify('success', versions.length > 1 ? `${versions.length} Variations Ready` : 'Image Edited');
+        return { result: `Saved ${versions.length} edited version(s) of "${source.title}" (item ${versions.map(v => v.id).join(', ')}). The original is unchanged.` };
+    },
+};
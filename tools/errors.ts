@@ -0,0 +1,24 @@
+import { ToolResult } from './types';
+
+export type ToolErrorCode = 'UNKNOWN_TOOL' | 'INVALID_ARGUMENT' | 'NOT_FOUND' | 'EXECUTION_FAILED' | 'CANCELLED';
+
+// A failure the model can act on: it comes back as `{ error: { code, message, field? } }`
+export class ToolError extends Error {
+    constructor(public code: ToolErrorCode, message: string, public field?: string) {
+        super(message);
+        this.name = 'ToolError';
+    }
+}
+
+export const toErrorResponse = (error: unknown): ToolResult => {
+    const toolError = error instanceof ToolError
+        ? error
+        : new ToolError('EXECUTION_FAILED', error instanceof Error ? error.message : String(error));
+    return {
+        error: {
+            code: toolError.code,
+            message: toolError.message,
+            ...(toolError.field ? { field: toolError.field } : {}),
+        },
+    };
+};
@@ -0,0 +1,63 @@
+import { Type, Schema } from '@google/genai';
+import { CanvasItem } from '../types';
+import { ToolDefinition } from './types';
+import { requireString } from './args';
+import { referencePrompt, requestImage } from '../utils/image-model';
+import { optionalReferenceIds, referenceImages } from './references';
+
+interface GenerateImageArgs {
+    prompt: string;
+    referenceIds: string[];
+}
+
+// Tool: Generate/Display Image (Nano Banana)
+export const generateImageTool: ToolDefinition<GenerateImageArgs> = {
+    declaration: {
+        name: 'generateImage',
+        description: 'Generates an image using Nano Banana technology (gemini-2.5-flash-image). Use this when the user asks to "generate an image", "show me", or "visualize".',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                prompt: {
+                    type: Type.STRING,
+                    description: 'A detailed English prompt for the image generation model. Include specific details about lighting, style, text placement, and colors.',
+                },
+                referenceIds: {
+                    type: Type.ARRAY,
+                    items: { type: Type.STRING },
+                    description: 'Optional. IDs of workspace images to follow as references (e.g. a screen capture to redesign), up to 3.',
+                },
+            },
+            required: ['prompt'],
+        } as Schema,
+    },
+    validate: (args) => ({
+        prompt: requireString(args, 'prompt'),
+        referenceIds: optionalReferenceIds(args),
+    }),
+    handler: async ({ prompt, referenceIds }, ctx) => {
+        const images = referenceImages(ctx.canvas.getItems(), referenceIds);
+        ctx.log('system', `Generating Image: ${prompt}`);
+        ctx.notify('info', 'Generating Visuals...');
+
+        const content = await requestImage({
+            apiKey: ctx.session.apiKey,
+            prompt: images.length > 0 ? referencePrompt(prompt) : prompt,
+            images,
+            signal: ctx.signal,
+        });
+        if (ctx.signal.aborted) return { result: 'Cancelled before the image was saved.' };
+
+        const newItem: CanvasItem = {
+            id: crypto.randomUUID(),
+            type: 'image',
+            title: prompt,
+            content,
+            timestamp: new Date()
+        };
+        ctx.canvas.setItems(prev => [newItem, ...prev]);
+        ctx.canvas.setActiveId(newItem.id);
+        ctx.notify('success', 'Image Generated');
+        return { result: `Image generated successfully via Nano Banana (item ${newItem.id}).` };
+    },
+};
@@ -0,0 +1,29 @@
+import { controlBrowserTool } from './controlBrowser';
+import { generateImageTool } from './generateImage';
+import { editImageTool } from './editImage';
+import { captureScreenTool } from './captureScreen';
+import { playVideoTool } from './playVideo';
+import { manageWorkspaceTool } from './manageWorkspace';
+import { downloadItemTool } from './downloadItem';
+import { recallMemoryTool } from './recallMemory';
+import { createToolRegistry, registerTool } from './registry';
+
+export type { ToolContext, ToolDefinition, ToolArgs, ToolResult, ToolRisk, ToolAssessment } from './types';
+export { createToolRegistry, registerTool } from './registry';
+export { ToolError, toErrorResponse } from './errors';
+export type { ToolErrorCode } from './errors';
+export type { ToolRegistry, RegisteredTool } from './registry';
+
+// Add new tools here; the Live session config and dispatch are derived from this list.
+export const builtinTools = [
+    registerTool(controlBrowserTool),
+    registerTool(generateImageTool),
+    registerTool(editImageTool),
+    registerTool(captureScreenTool),
+    registerTool(playVideoTool),
+    registerTool(manageWorkspaceTool),
+    registerTool(downloadItemTool),
+    registerTool(recallMemoryTool),
+];
+
+export const toolRegistry = createToolRegistry(builtinTools);
@@ -0,0 +1,170 @@
+import { Type, Schema } from '@google/genai';
+import { CanvasItem, CanvasItemType } from '../types';
+import { ToolArgs, ToolDefinition } from './types';
+import { optionalString, requireString } from './args';
+import { ToolError } from './errors';
+import { patchCsvCells } from '../utils/csv';
+import { taskProgress } from '../utils/markdown';
+
+interface CellUpdate {
+    cell: string;
+    value: string;
+}
+
+interface ManageWorkspaceArgs {
+    action: string;
+    itemType?: CanvasItemType;
+    title?: string;
+    content?: string;
+    itemId?: string;
+    cells?: CellUpdate[];
+}
+
+// Shape and types are already checked against the declaration; this only fills in empty values
+const optionalCells = (args: ToolArgs): CellUpdate[] | undefined => {
+    const value = args.cells as ToolArgs[] | undefined;
+    return value?.map(cell => ({
+        cell: String(cell.cell),
+        value: cell.value === undefined ? '' : String(cell.value),
+    }));
+};
+
+const findItem = (items: CanvasItem[], itemId: string): CanvasItem => {
+    const item = items.find(i => i.id === itemId);
+    if (!item) throw new ToolError('NOT_FOUND', `No item with ID ${itemId}. Use "read" to list item IDs.`, 'itemId');
+    return item;
+};
+
+// Tool: Manage Workspace (CRUD)
+export const manageWorkspaceTool: ToolDefinition<ManageWorkspaceArgs> = {
+    declaration: {
+        name: 'manageWorkspace',
+        description: 'Manage the user\'s workspace (Canvas). Perform CRUD operations: Create, Read (list items), Update, or Delete notes, routines, and spreadsheets.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                action: {
+                    type: Type.STRING,
+                    enum: ['create', 'read', 'update', 'delete'],
+                    description: 'The action to perform.',
+                },
+                itemType: {
+                    type: Type.STRING,
+                    enum: ['note', 'routine', 'spreadsheet'],
+                    description: 'Type of item (only for create). Use "spreadsheet" for tables/budgets, "routine" for checklists.',
+                },
+                title: {
+                    type: Type.STRING,
+                    description: 'Title of the item (for create/update).',
+                },
+                content: {
+                    type: Type.STRING,
+                    description: 'Content of the item. Notes and routines are Markdown; write routine steps as a checklist ("- [ ] Step"), and attach a workspace image with ![caption](item:ID). For spreadsheets, strictly use CSV format (e.g. "Item,Cost\\nApple,1.00").',
+                },
+                itemId: {
+                    type: Type.STRING,
+                    description: 'The ID of the item to update or delete. Use "read" first to find IDs if unknown; "read" with an ID returns that item\'s full content.',
+                },
+                cells: {
+                    type: Type.ARRAY,
+                    description: 'Spreadsheet update only: change individual cells instead of rewriting the whole CSV. Row 1 is the header row. Values starting with "=" are formulas (e.g. "=SUM(B2:B5)", "=B2*C2").',
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            cell: { type: Type.STRING, description: 'Cell in A1 notation, e.g. "B3".' },
+                            value: { type: Type.STRING, description: 'New cell value or formula.' },
+                        },
+                        required: ['cell', 'value'],
+                    },
+                },
+            },
+            required: ['action'],
+        } as Schema,
+    },
+    validate: (args) => {
+        const action = requireString(args, 'action');
+        const parsed: ManageWorkspaceArgs = {
+            action,
+            itemType: optionalString(args, 'itemType') as CanvasItemType | undefined,
+            title: optionalString(args, 'title'),
+            content: optionalString(args, 'content'),
+            itemId: action === 'update' || action === 'delete' ? requireString(args, 'itemId') : optionalString(args, 'itemId'),
+            cells: optionalCells(args),
+        };
+        if (action === 'update' && !parsed.title && !parsed.content && !parsed.cells?.length) {
+            throw new ToolError('INVALID_ARGUMENT', 'Nothing to update: give a title, content or cells.', 'content');
+        }
+        if (parsed.cells && action !== 'update') {
+            throw new ToolError('INVALID_ARGUMENT', 'cells only applies to "update".', 'cells');
+        }
+        return parsed;
+    },
+    assess: ({ action, itemId }, ctx) => {
+        const item = ctx.canvas.getItems().find(i => i.id === itemId);
+        const name = item ? `"${item.title}"` : `item ${itemId}`;
+        // A missing item fails with NOT_FOUND before touching anything; no need to ask
+        if (!item && (action === 'delete' || action === 'update')) return { risk: 'low', summary: `Change ${name}` };
+        if (action === 'delete') return { risk: 'high', summary: `Delete ${name} from the workspace` };
+        if (action === 'update') return { risk: 'medium', summary: `Overwrite ${name}` };
+        return { risk: 'low', summary: action === 'create' ? 'Create a workspace item' : 'Read the workspace' };
+    },
+    // Changes apply in order; reads don't wait
+    lane: ({ action }) => action === 'read' ? undefined : 'workspace',
+    handler: async ({ action, itemType, title, content, itemId, cells }, ctx) => {
+        let result = '';
+
+        if (action === 'create') {
+            const newItem: CanvasItem = {
+                id: crypto.randomUUID(),
+                type: itemType || 'note',
+                title: title || 'Untitled',
+                content: content || '',
+                timestamp: new Date()
+            };
+            ctx.canvas.setItems(prev => [newItem, ...prev]);
+            ctx.canvas.setActiveId(newItem.id);
+            result = `Created ${newItem.type} ${newItem.id}`;
+            ctx.notify('success', `Created ${newItem.type}`);
+        } else if (action === 'read' && itemId) {
+            const item = findItem(ctx.canvas.getItems(), itemId);
+            result = `Title: ${item.title}, Type: ${item.type}\n${item.type === 'image' ? '[image]' : item.content}`;
+        } else if (action === 'read') {
+            const itemsSummary = ctx.canvas.getItems().map(i => {
+                // Checklist boxes are ticked by the user in the panel; surface where they stand
+                const { done, total } = taskProgress(i.content);
+                const progress = i.type === 'routine' && total > 0 ? `, Done: ${done}/${total}` : '';
+                const source = i.sourceId ? `, Edited from: ${i.sourceId}` : '';
+                return `ID: ${i.id}, Title: ${i.title}, Type: ${i.type}${progress}${source}`;
+            }).join('\n');
+            result = itemsSummary || 'Workspace is empty.';
+        } else if (action === 'update') {
+            const target = findItem(ctx.canvas.getItems(), itemId!);
+            if (cells && target.type !== 'spreadsheet') {
+                throw new ToolError('INVALID_ARGUMENT', `Item ${itemId} is a ${target.type}, not a spreadsheet; cells only apply to spreadsheets.`, 'cells');
+            }
+            let nextContent = content;
+            if (cells) {
+                // Cells patch whatever CSV the item holds after any full-content replacement
+                try {
+                    nextContent = patchCsvCells(content || target.content, cells);
+                } catch (e) {
+                    throw new ToolError('INVALID_ARGUMENT', e instanceof Error ? e.message : String(e), 'cells');
+                }
+            }
+            ctx.canvas.updateItem(target.id, {
+                ...(title ? { title } : {}),
+                ...(nextContent ? { content: nextContent } : {}),
+            });
+            result = cells ? `Updated ${cells.length} cell(s) in item ${itemId}` : `Updated item ${itemId}`;
+            ctx.notify('success', 'Item Updated');
+        } else if (action === 'delete') {
+            const target = findItem(ctx.canvas.getItems(), itemId!);
+            ctx.canvas.setItems(prev => prev.filter(item => item.id !== target.id));
+            ctx.canvas.setActiveId(prev => prev === target.id ? null : prev);
+            result = `Deleted item ${itemId} (moved to the trash; the user can restore it)`;
+            ctx.notify('success', 'Item Deleted');
+        }
+        ctx.log('system', result);
+        return { result };
+    },
+};
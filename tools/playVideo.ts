@@ -0,0 +1,36 @@
+import { Type, Schema } from '@google/genai';
+import { ToolDefinition } from './types';
+import { requireString } from './args';
+
+interface PlayVideoArgs {
+    query: string;
+}
+
+// Tool: Play Video/Music
+export const playVideoTool: ToolDefinition<PlayVideoArgs> = {
+    declaration: {
+        name: 'playVideo',
+        description: 'Plays a video or song for the user on screen. Supports YouTube search queries.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                query: {
+                    type: Type.STRING,
+                    description: 'The search query for the video or song.',
+                },
+            },
+            required: ['query'],
+        } as Schema,
+    },
+    validate: (args) => ({
+        query: requireString(args, 'query'),
+    }),
+    // The last request wins the player
+    lane: () => 'video',
+    handler: async ({ query }, ctx) => {
+        const embedUrl = `https://www.youtube.com/embed?listType=search&list=${encodeURIComponent(query)}&autoplay=1`;
+        ctx.setVideoState({ isActive: true, url: embedUrl, query });
+        ctx.notify('success', `Playing ${query}`);
+        return { result: `Playing ${query}` };
+    },
+};
@@ -0,0 +1,91 @@
+import { Type, Schema } from '@google/genai';
+import { ToolDefinition } from './types';
+import { optionalString } from './args';
+import { ToolError } from './errors';
+
+interface RecallMemoryArgs {
+    query?: string;
+    from?: number;
+    to?: number;
+    limit: number;
+}
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 10;
+
+// Accepts ISO dates or datetimes; a bare date as `to` covers that whole day (local time)
+const parseDateArg = (key: string, value: string | undefined, endOfDay: boolean): number | undefined => {
+    if (!value) return undefined;
+    const isBareDate = /^\d{4}-\d{2}-\d{2}$/.test(value);
+    const time = isBareDate
+        ? new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).getTime()
+        : Date.parse(value);
+    if (Number.isNaN(time)) {
+        throw new ToolError('INVALID_ARGUMENT', `Invalid date: ${value}. Use YYYY-MM-DD.`, key);
+    }
+    return time;
+};
+
+// Tool: Recall Memory (search past sessions)
+export const recallMemoryTool: ToolDefinition<RecallMemoryArgs> = {
+    declaration: {
+        name: 'recallMemory',
+        description: 'Searches the saved history of past sessions (conversations and workspace items). Use this when the user refers to something from an earlier conversation, e.g. "what did we decide about the budget last week?".',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                query: {
+                    type: Type.STRING,
+                    description: 'Keywords to search for (e.g. "budget thumbnail"). Omit to list sessions in the date range.',
+                },
+                fromDate: {
+                    type: Type.STRING,
+                    description: 'Optional. Earliest session date, ISO format YYYY-MM-DD.',
+                },
+                toDate: {
+                    type: Type.STRING,
+                    description: 'Optional. Latest session date, ISO format YYYY-MM-DD (inclusive).',
+                },
+                limit: {
+                    type: Type.NUMBER,
+                    description: `Optional. Maximum number of sessions to return (default ${DEFAULT_LIMIT}, max ${MAX_LIMIT}).`,
+                },
+            },
+        } as Schema,
+    },
+    validate: (args) => {
+        const query = optionalString(args, 'query')?.trim() || undefined;
+        const from = parseDateArg('fromDate', optionalString(args, 'fromDate'), false);
+        const to = parseDateArg('toDate', optionalString(args, 'toDate'), true);
+        if (!query && from === undefined && to === undefined) {
+            throw new ToolError('INVALID_ARGUMENT', 'Provide a query, a date range, or both.', 'query');
+        }
+        const limit = Number(args.limit ?? DEFAULT_LIMIT);
+        return {
+            query,
+            from,
+            to,
+            limit: Number.isFinite(limit) ? Math.min(Math.max(1, Math.round(limit)), MAX_LIMIT) : DEFAULT_LIMIT,
+        };
+    },
+    handler: async ({ query, from, to, limit }, ctx) => {
+        ctx.log('system', `Searching memory${query ? `: ${query}` : ''}`);
+        const hits = await ctx.memory.search({ text: query, from, to, limit });
+        if (hits.length === 0) {
+            return { result: 'No matching memories found.' };
+        }
+
+        return {
+            results: hits.map(hit => ({
+                sessionId: hit.session.id,
+                date: new Date(hit.session.startTime).toISOString(),
+                current: hit.session.id === ctx.session.id,
+                matchedTerms: hit.terms,
+                snippets: hit.snippets.map(snippet => ({
+                    from: snippet.source === 'canvas' ? `workspace item "${snippet.title}"` : snippet.role,
+                    text: snippet.text,
+                })),
+            })),
+        };
+    },
+};
@@ -0,0 +1,22 @@
+import { CanvasItem } from '../types';
+import { ToolArgs } from './types';
+import { ToolError } from './errors';
+
+export const MAX_REFERENCE_IMAGES = 3;
+
+// `referenceIds` after the schema check: a list of workspace image IDs, possibly absent
+export const optionalReferenceIds = (args: ToolArgs): string[] => {
+    const ids = (args.referenceIds as string[] | undefined) ?? [];
+    if (ids.length > MAX_REFERENCE_IMAGES) {
+        throw new ToolError('INVALID_ARGUMENT', `At most ${MAX_REFERENCE_IMAGES} reference images.`, 'referenceIds');
+    }
+    return ids;
+};
+
+// Data URLs of the referenced image items, in the order given
+export const referenceImages = (items: CanvasItem[], ids: string[]): string[] => ids.map(id => {
+    const item = items.find(i => i.id === id);
+    if (!item) throw new ToolError('NOT_FOUND', `No item with ID ${id}. Use manageWorkspace "read" to list item IDs.`, 'referenceIds');
+    if (item.type !== 'image') throw new ToolError('INVALID_ARGUMENT', `Item ${id} is a ${item.type}, not an image.`, 'referenceIds');
+    return item.content;
+});
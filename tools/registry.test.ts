@@ -0,0 +1,171 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FunctionCall } from '@google/genai';
+import { CanvasItem } from '../types';
+import { ToolContext, toolRegistry } from '.';
+import { ToolError } from './errors';
+
+// In-memory stand-in for what useLiveAgent wires up
+const createFakeContext = (initial: CanvasItem[] = []) => {
+    const state = {
+        items: initial,
+        activeId: null as string | null,
+        downloads: [] as { item: CanvasItem; format?: string }[],
+        logs: [] as string[],
+    };
+    const context: ToolContext = {
+        canvas: {
+            getItems: () => state.items,
+            setItems: action => {
+                state.items = typeof action === 'function' ? action(state.items) : action;
+            },
+            updateItem: (id, patch) => {
+                state.items = state.items.map(item => item.id === id ? { ...item, ...patch } : item);
+            },
+            setActiveId: action => {
+                state.activeId = typeof action === 'function' ? action(state.activeId) : action;
+            },
+            download: (item, format) => {
+                state.downloads.push({ item, format });
+            },
+        },
+        notify: () => {},
+        log: (_, text) => {
+            state.logs.push(text);
+        },
+        session: { id: 'test', apiKey: '' },
+        setVideoState: () => {},
+        screen: { capture: () => null },
+        memory: { search: async () => [] },
+        signal: new AbortController().signal,
+    };
+    return { state, context };
+};
+
+const call = (name: string, args: Record<string, unknown>): FunctionCall => ({ id: `${name}-call`, name, args });
+
+const note: CanvasItem = { id: 'n1', type: 'note', title: 'Ideas', content: 'first', timestamp: new Date(1) };
+const sheet: CanvasItem = { id: 's1', type: 'spreadsheet', title: 'Budget', content: 'Item,Cost\nApple,1', timestamp: new Date(2) };
+
+describe('manageWorkspace', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('creates an item and opens it', async () => {
+        const { state, context } = createFakeContext([note]);
+
+        await toolRegistry.dispatch(call('manageWorkspace', { action: 'create', itemType: 'routine', title: 'Morning', content: '- [ ] Run' }), context);
+
+        expect(state.items).toHaveLength(2);
+        expect(state.items[0]).toMatchObject({ type: 'routine', title: 'Morning', content: '- [ ] Run' });
+        expect(state.activeId).toBe(state.items[0].id);
+    });
+
+    it('gives items created in the same instant distinct ids', async () => {
+        const { state, context } = createFakeContext([]);
+        vi.spyOn(Date, 'now').mockReturnValue(1000);
+
+        await Promise.all([1, 2, 3].map(n =>
+            toolRegistry.dispatch(call('manageWorkspace', { action: 'create', title: `Note ${n}` }), context)));
+
+        expect(new Set(state.items.map(item => item.id)).size).toBe(3);
+    });
+
+    it('lists items for read', async () => {
+        const { context } = createFakeContext([note, sheet]);
+
+        const response = await toolRegistry.dispatch(call('manageWorkspace', { action: 'read' }), context);
+
+        expect(response.result).toBe('ID: n1, Title: Ideas, Type: note\nID: s1, Title: Budget, Type: spreadsheet');
+    });
+
+    it('updates content and individual spreadsheet cells', async () => {
+        const { state, context } = createFakeContext([note, sheet]);
+
+        await toolRegistry.dispatch(call('manageWorkspace', { action: 'update', itemId: 'n1', content: 'second' }), context);
+        await toolRegistry.dispatch(call('manageWorkspace', { action: 'update', itemId: 's1', cells: [{ cell: 'B2', value: '=1+2' }] }), context);
+
+        expect(state.items.find(item => item.id === 'n1')).toMatchObject({ title: 'Ideas', content: 'second' });
+        expect(state.items.find(item => item.id === 's1')?.content).toBe('Item,Cost\nApple,=1+2');
+    });
+
+    it('refuses cell updates on items that are not spreadsheets', async () => {
+        const { state, context } = createFakeContext([note]);
+
+        await expect(toolRegistry.dispatch(call('manageWorkspace', { action: 'update', itemId: 'n1', cells: [{ cell: 'A1', value: 'x' }] }), context))
+            .rejects.toMatchObject({ code: 'INVALID_ARGUMENT', field: 'cells' });
+        expect(state.items).toEqual([note]);
+    });
+
+    it('deletes an item and clears the selection', async () => {
+        const { state, context } = createFakeContext([note, sheet]);
+        state.activeId = 'n1';
+
+        const response = await toolRegistry.dispatch(call('manageWorkspace', { action: 'delete', itemId: 'n1' }), context);
+
+        expect(state.items.map(item => item.id)).toEqual(['s1']);
+        expect(state.activeId).toBeNull();
+        expect(response.result).toContain('moved to the trash');
+    });
+
+    it('rejects an unknown item type and a missing item', async () => {
+        const { state, context } = createFakeContext([note]);
+
+        await expect(toolRegistry.dispatch(call('manageWorkspace', { action: 'create', itemType: 'video' }), context))
+            .rejects.toMatchObject({ code: 'INVALID_ARGUMENT', field: 'itemType' });
+        await expect(toolRegistry.dispatch(call('manageWorkspace', { action: 'update', itemId: 'nope', content: 'x' }), context))
+            .rejects.toMatchObject({ code: 'NOT_FOUND', field: 'itemId' });
+        expect(state.items).toEqual([note]);
+    });
+});
+
+describe('downloadItem', () => {
+    it('downloads in the requested format', async () => {
+        const { state, context } = createFakeContext([sheet]);
+
+        await toolRegistry.dispatch(call('downloadItem', { itemId: 's1', format: 'xlsx' }), context);
+
+        expect(state.downloads).toEqual([{ item: sheet, format: 'xlsx' }]);
+    });
+
+    it('refuses a format the item type does not export to', async () => {
+        const { state, context } = createFakeContext([note]);
+
+        await expect(toolRegistry.dispatch(call('downloadItem', { itemId: 'n1', format: 'xlsx' }), context))
+            .rejects.toMatchObject({ code: 'INVALID_ARGUMENT', field: 'format' });
+        expect(state.downloads).toEqual([]);
+    });
+
+    it('reports an unknown item without downloading anything', async () => {
+        const { state, context } = createFakeContext([sheet]);
+
+        const dispatch = toolRegistry.dispatch(call('downloadItem', { itemId: 'missing' }), context);
+
+        await expect(dispatch).rejects.toBeInstanceOf(ToolError);
+        await expect(dispatch).rejects.toMatchObject({ code: 'NOT_FOUND' });
+        expect(state.downloads).toEqual([]);
+    });
+});
+
+describe('registry', () => {
+    it('asks for confirmation before deleting or overwriting, not before reading', () => {
+        const { context } = createFakeContext([note]);
+
+        expect(toolRegistry.isGated('manageWorkspace')).toBe(true);
+        expect(toolRegistry.assess(call('manageWorkspace', { action: 'delete', itemId: 'n1' }), context))
+            .toEqual({ risk: 'high', summary: 'Delete "Ideas" from the workspace' });
+        expect(toolRegistry.assess(call('manageWorkspace', { action: 'update', itemId: 'n1', content: 'x' }), context).risk).toBe('medium');
+        expect(toolRegistry.assess(call('manageWorkspace', { action: 'read' }), context).risk).toBe('low');
+    });
+
+    it('queues workspace changes in one lane and lets reads through', () => {
+        expect(toolRegistry.lane(call('manageWorkspace', { action: 'update', itemId: 'n1', content: 'x' }))).toBe('workspace');
+        expect(toolRegistry.lane(call('manageWorkspace', { action: 'read' }))).toBeUndefined();
+    });
+
+    it('rejects tools it does not know', async () => {
+        const { context } = createFakeContext();
+
+        await expect(toolRegistry.dispatch(call('launchRocket', {}), context)).rejects.toMatchObject({ code: 'UNKNOWN_TOOL' });
+    });
+});
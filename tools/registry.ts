@@ -0,0 +1,87 @@
+import { FunctionCall, FunctionDeclaration } from '@google/genai';
+import { ToolArgs, ToolAssessment, ToolContext, ToolDefinition, ToolResult } from './types';
+import { ToolError } from './errors';
+import { checkArgs } from './schema';
+
+// One call whose args passed the schema and the tool's validate, ready to assess or run
+interface BoundToolCall {
+    assess?: (context: ToolContext) => ToolAssessment;
+    lane?: string;
+    run: (context: ToolContext) => Promise<ToolResult>;
+}
+
+// A definition with its args type sealed in, so tools of different arg types share one list
+export interface RegisteredTool {
+    declaration: FunctionDeclaration;
+    gated: boolean;
+    // Throws a ToolError for args that fail the schema or the tool's validate
+    bind: (args: ToolArgs) => BoundToolCall;
+}
+
+export const registerTool = <TArgs,>(definition: ToolDefinition<TArgs>): RegisteredTool => ({
+    declaration: definition.declaration,
+    gated: !!definition.assess,
+    bind: (raw) => {
+        // Schema checks come from the declaration, then the tool's own validate adds what a schema can't say
+        const args = definition.validate(checkArgs(definition.declaration.parameters, raw));
+        const { assess, lane, handler } = definition;
+        return {
+            assess: assess && (context => assess(args, context)),
+            lane: lane?.(args),
+            run: context => handler(args, context),
+        };
+    },
+});
+
+export interface ToolRegistry {
+    declarations: FunctionDeclaration[];
+    has: (name: string) => boolean;
+    // Tools with calls that may need the user's confirmation
+    isGated: (name: string) => boolean;
+    assess: (call: FunctionCall, context: ToolContext) => ToolAssessment;
+    lane: (call: FunctionCall) => string | undefined;
+    // Throws a ToolError for unknown tools and bad args; see toErrorResponse
+    dispatch: (call: FunctionCall, context: ToolContext) => Promise<ToolResult>;
+}
+
+export const createToolRegistry = (tools: RegisteredTool[]): ToolRegistry => {
+    const byName = new Map<string, RegisteredTool>();
+    for (const tool of tools) {
+        const name = tool.declaration.name;
+        if (!name) throw new Error('Tool declaration is missing a name');
+        if (byName.has(name)) throw new Error(`Duplicate tool: ${name}`);
+        byName.set(name, tool);
+    }
+
+    const bind = (call: FunctionCall): BoundToolCall => {
+        const tool = call.name ? byName.get(call.name) : undefined;
+        if (!tool) {
+            throw new ToolError('UNKNOWN_TOOL', `Unknown tool "${call.name ?? ''}". Available tools: ${Array.from(byName.keys()).join(', ')}`);
+        }
+        return tool.bind((call.args ?? {}) as ToolArgs);
+    };
+
+    return {
+        declarations: tools.map(t => t.declaration),
+        has: (name) => byName.has(name),
+        isGated: (name) => !!byName.get(name)?.gated,
+        assess: (call, context) => {
+            const summary = `${call.name}(${JSON.stringify(call.args ?? {})})`;
+            try {
+                return bind(call).assess?.(context) ?? { risk: 'low', summary };
+            } catch (e) {
+                // Unusable args fail in dispatch without doing anything, so there is nothing to confirm
+                return { risk: 'low', summary };
+            }
+        },
+        lane: (call) => {
+            try {
+                return bind(call).lane;
+            } catch (e) {
+                // Fails straight away in dispatch; no need to wait its turn
+                return undefined;
+            }
+        },
+        dispatch: async (call, context) => bind(call).run(context),
+    };
+};
@@ -0,0 +1,69 @@
+import { Schema, Type } from '@google/genai';
+import { ToolArgs } from './types';
+import { ToolError } from './errors';
+
+const invalid = (path: string, message: string) => new ToolError('INVALID_ARGUMENT', `${path}: ${message}`, path);
+
+// Models sometimes quote numbers or send bare numbers for text; accept those, reject anything else of the wrong type
+const checkValue = (schema: Schema, value: unknown, path: string): unknown => {
+    switch (schema.type) {
+        case Type.STRING: {
+            const text = typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+            if (typeof text !== 'string') throw invalid(path, `expected a string, got ${JSON.stringify(value)}`);
+            if (schema.enum && !schema.enum.includes(text)) {
+                throw invalid(path, `"${text}" is not one of ${schema.enum.map(option => `"${option}"`).join(', ')}`);
+            }
+            return text;
+        }
+        case Type.NUMBER:
+        case Type.INTEGER: {
+            const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+            if (typeof number !== 'number' || !Number.isFinite(number)) throw invalid(path, `expected a number, got ${JSON.stringify(value)}`);
+            if (schema.type === Type.INTEGER && !Number.isInteger(number)) throw invalid(path, `expected a whole number, got ${number}`);
+            return number;
+        }
+        case Type.BOOLEAN: {
+            if (value === 'true' || value === 'false') return value === 'true';
+            if (typeof value !== 'boolean') throw invalid(path, `expected true or false, got ${JSON.stringify(value)}`);
+            return value;
+        }
+        case Type.ARRAY: {
+            if (!Array.isArray(value)) throw invalid(path, 'expected an array');
+            return schema.items ? value.map((entry, i) => checkValue(schema.items!, entry, `${path}[${i}]`)) : value;
+        }
+        case Type.OBJECT: {
+            if (!value || typeof value !== 'object' || Array.isArray(value)) throw invalid(path, 'expected an object');
+            return checkObject(schema, value as ToolArgs, `${path}.`);
+        }
+        default:
+            return value;
+    }
+};
+
+const checkObject = (schema: Schema, args: ToolArgs, prefix: string): ToolArgs => {
+    const properties = schema.properties ?? {};
+    const checked: ToolArgs = {};
+
+    Object.entries(args).forEach(([key, value]) => {
+        const property = properties[key];
+        if (!property) {
+            const allowed = Object.keys(properties);
+            throw invalid(`${prefix}${key}`, `unknown argument${allowed.length ? `; expected one of ${allowed.join(', ')}` : ''}`);
+        }
+        // null reads as "not given", same as leaving it out
+        if (value !== null && value !== undefined) checked[key] = checkValue(property, value, `${prefix}${key}`);
+    });
+
+    schema.required?.forEach(key => {
+        if (checked[key] === undefined || checked[key] === '') throw invalid(`${prefix}${key}`, 'is required');
+    });
+    return checked;
+};
+
+/**
+ * Checks raw model args against a FunctionDeclaration's parameter schema: required
+ * fields, types, enums, nested arrays/objects, and no unknown names. Returns the args
+ * with numbers and booleans coerced; throws a ToolError naming the offending field.
+ */
+export const checkArgs = (schema: Schema | undefined, args: ToolArgs): ToolArgs =>
+    schema ? checkObject(schema, args, '') : args;
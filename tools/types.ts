@@ -0,0 +1,59 @@
+import type { Dispatch, SetStateAction } from 'react';
+import { FunctionDeclaration } from '@google/genai';
+import { CanvasItem, CanvasItemPatch, MessageLog, Notification, VideoState } from '../types';
+import { SessionSearchHit, SessionSearchQuery } from '../utils/search';
+import { ItemExportFormat } from '../utils/item-files';
+
+export type ToolArgs = Record<string, unknown>;
+export type ToolResult = Record<string, unknown>;
+
+// Everything a tool handler may touch. The hook builds this from its refs/setters,
+// tests can hand in a plain fake.
+export interface ToolContext {
+    canvas: {
+        getItems: () => CanvasItem[];
+        setItems: Dispatch<SetStateAction<CanvasItem[]>>;
+        // Same path as the user's manual edits in the workspace panel
+        updateItem: (id: string, patch: CanvasItemPatch) => void;
+        setActiveId: Dispatch<SetStateAction<string | null>>;
+        download: (item: CanvasItem, format?: ItemExportFormat) => void;
+    };
+    notify: (type: Notification['type'], message: string) => void;
+    log: (role: MessageLog['role'], text: string) => void;
+    session: {
+        id: string;
+        apiKey: string;
+    };
+    setVideoState: (state: VideoState) => void;
+    screen: {
+        // Current screen-share frame as a data URL, or null when nothing is shared
+        capture: () => string | null;
+    };
+    memory: {
+        search: (query: SessionSearchQuery) => Promise<SessionSearchHit[]>;
+    };
+    // Aborts when the user or the server cancels this call; check it before side effects
+    signal: AbortSignal;
+}
+
+// 'low' runs straight away; 'medium' and 'high' wait for the user unless auto-approved
+export type ToolRisk = 'low' | 'medium' | 'high';
+
+export interface ToolAssessment {
+    risk: ToolRisk;
+    // What the call will do, in words for the confirmation card
+    summary: string;
+}
+
+export interface ToolDefinition<TArgs = ToolArgs> {
+    declaration: FunctionDeclaration;
+    // Turns args already checked against `declaration.parameters` into typed args,
+    // throwing a ToolError for whatever the schema can't express.
+    validate: (args: ToolArgs) => TArgs;
+    // Risk of one call; tools without it are always 'low'
+    assess?: (args: TArgs, context: ToolContext) => ToolAssessment;
+    // Calls on the same lane run one after another in the order the model sent them;
+    // calls without one run in parallel
+    lane?: (args: TArgs) => string | undefined;
+    handler: (args: TArgs, context: ToolContext) => Promise<ToolResult>;
+}
@@ -3,12 +3,14 @@ export interface MessageLog {
     role: 'user' | 'model' | 'system';
     text: string;
     timestamp: Date;
+    agent?: DualAgentId; // Which Dual Core agent spoke (model lines only)
 }
 
 export enum ConnectionState {
     DISCONNECTED = 'DISCONNECTED',
     CONNECTING = 'CONNECTING',
     CONNECTED = 'CONNECTED',
+    RECONNECTING = 'RECONNECTING',
     ERROR = 'ERROR'
 }
 
@@ -20,20 +22,80 @@ export interface VideoState {
 
 export type CanvasItemType = 'note' | 'image' | 'routine' | 'suggestion' | 'spreadsheet';
 
+export type ChangeAuthor = 'user' | 'agent';
+
+// One saved version of a workspace item and who wrote it
+export interface ItemRevision {
+    title: string;
+    content: string;
+    timestamp: Date;
+    author: ChangeAuthor;
+}
+
 export interface CanvasItem {
     id: string;
     type: CanvasItemType;
     title: string;
     content: string; // Text content, Image URL, or CSV data
     timestamp: Date;
+    revisions?: ItemRevision[]; // Oldest first; the last entry is the current version
+    deletedAt?: Date; // Set while the item sits in the trash
+    deletedBy?: ChangeAuthor;
+    sourceId?: string; // Images: the image this one was edited from
 }
 
+// Fields a manual edit or the agent's manageWorkspace update may change
+export type CanvasItemPatch = Partial<Pick<CanvasItem, 'title' | 'content'>>;
+
 export interface SessionData {
     id: string;
     startTime: number;
     endTime?: number;
     logs: MessageLog[];
     canvasItems: CanvasItem[]; // Renamed from notes
+    trash?: CanvasItem[]; // Deleted items, newest first, until the trash is emptied
+    isDualMode?: boolean;
+}
+
+// Lightweight row for the Memory list; the full SessionData is loaded on demand
+export interface SessionSummary {
+    id: string;
+    startTime: number;
+    endTime?: number;
+    title: string;
+    messageCount: number;
+    itemCount: number;
+    hasImages: boolean;
+    hasSpreadsheets: boolean;
+    isDualMode: boolean;
+}
+
+export type LanguageStyle = 'hinglish' | 'english';
+export type DualAgentId = 'crack' | 'jack';
+export type PersonaTone = 'energetic' | 'calm' | 'professional' | 'playful';
+
+// A named agent setup; turned into the system prompt, voice and tool list at connect time
+export interface PersonaProfile {
+    id: string;
+    name: string;           // Profile label, e.g. "Ali - Agency"
+    userName: string;       // How the agent addresses the user
+    languageStyle: LanguageStyle;
+    tone: PersonaTone;
+    voice: string;          // Prebuilt Live voice name
+    languageCode?: string;  // BCP-47 speech language; the model picks when unset
+    dualVoices?: Record<DualAgentId, string>; // Voices for Crack and Jack in Dual Core
+    directives: string;     // Extra free-form instructions appended to the prompt
+    enabledTools: string[]; // Function declaration names, plus 'googleSearch'
+    knownTools?: string[];  // Every tool offered when the profile was last saved; newer ones start enabled
+    autoApproveTools?: string[]; // Gated tools that run without asking first
+    updatedAt: number;
+}
+
+// Resolved speech settings for one connect
+export interface SpeechSettings {
+    voice: string;
+    languageCode?: string;
+    dualVoices: Record<DualAgentId, string>;
 }
 
 export interface Notification {
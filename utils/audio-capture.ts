@@ -0,0 +1,127 @@
+import { Blob } from '@google/genai';
+import { createPcmBlob, pcm16ToBlob } from './audio-utils';
+
+// 512 samples at 16kHz = 32ms per frame (ScriptProcessor used 4096 = 256ms)
+const FRAME_SIZE = 512;
+const FALLBACK_BUFFER_SIZE = 1024;
+const PROCESSOR_NAME = 'pcm16-capture';
+
+// Runs on the audio rendering thread: converts to PCM16 and posts fixed-size frames.
+// Kept as a string so it can be loaded from a Blob URL without bundler support.
+const WORKLET_SOURCE = `
+class Pcm16CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.frameSize = options.processorOptions.frameSize;
+    this.frame = new Int16Array(this.frameSize);
+    this.offset = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    for (let i = 0; i < channel.length; i++) {
+      const s = Math.max(-1, Math.min(1, channel[i]));
+      this.frame[this.offset++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+      if (this.offset === this.frameSize) {
+        this.port.postMessage(this.frame.buffer, [this.frame.buffer]);
+        this.frame = new Int16Array(this.frameSize);
+        this.offset = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', Pcm16CaptureProcessor);
+`;
+
+export interface AudioCapture {
+  mode: 'worklet' | 'script-processor';
+  stop: () => void;
+}
+
+async function startWorkletCapture(
+  source: MediaStreamAudioSourceNode,
+  onFrame: (blob: Blob) => void,
+): Promise<AudioCapture> {
+  const ctx = source.context as AudioContext;
+  const moduleUrl = URL.createObjectURL(new window.Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(moduleUrl);
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    processorOptions: { frameSize: FRAME_SIZE },
+  });
+  node.port.onmessage = (e: MessageEvent<ArrayBuffer>) => {
+    onFrame(pcm16ToBlob(new Int16Array(e.data)));
+  };
+
+  source.connect(node);
+  // The node outputs silence; connecting it keeps the graph pulling it
+  node.connect(ctx.destination);
+
+  return {
+    mode: 'worklet',
+    stop: () => {
+      node.port.onmessage = null;
+      node.disconnect();
+      try {
+        source.disconnect(node);
+      } catch (e) {
+        // Source was already fully disconnected
+      }
+    },
+  };
+}
+
+function startScriptProcessorCapture(
+  source: MediaStreamAudioSourceNode,
+  onFrame: (blob: Blob) => void,
+): AudioCapture {
+  const ctx = source.context as AudioContext;
+  const processor = ctx.createScriptProcessor(FALLBACK_BUFFER_SIZE, 1, 1);
+  processor.onaudioprocess = (e) => {
+    onFrame(createPcmBlob(e.inputBuffer.getChannelData(0)));
+  };
+
+  source.connect(processor);
+  processor.connect(ctx.destination);
+
+  return {
+    mode: 'script-processor',
+    stop: () => {
+      processor.onaudioprocess = null;
+      processor.disconnect();
+      try {
+        source.disconnect(processor);
+      } catch (e) {
+        // Source was already fully disconnected
+      }
+    },
+  };
+}
+
+/**
+ * Streams mic audio from `source` as 16kHz PCM16 blobs ready for sendRealtimeInput.
+ * Uses an AudioWorklet when available and falls back to a ScriptProcessorNode otherwise.
+ */
+export async function startAudioCapture(
+  source: MediaStreamAudioSourceNode,
+  onFrame: (blob: Blob) => void,
+): Promise<AudioCapture> {
+  const ctx = source.context as AudioContext;
+  if (ctx.audioWorklet && typeof AudioWorkletNode !== 'undefined') {
+    try {
+      return await startWorkletCapture(source, onFrame);
+    } catch (e) {
+      console.warn('AudioWorklet capture unavailable, falling back to ScriptProcessor', e);
+    }
+  }
+  return startScriptProcessorCapture(source, onFrame);
+}
@@ -38,7 +38,7 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createPcmBlob(data: Float32Array): Blob {
+export function floatToPcm16(data: Float32Array): Int16Array {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
@@ -46,8 +46,16 @@ export function createPcmBlob(data: Float32Array): Blob {
     const s = Math.max(-1, Math.min(1, data[i]));
     int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
   }
+  return int16;
+}
+
+export function pcm16ToBlob(int16: Int16Array): Blob {
   return {
-    data: bytesToBase64(new Uint8Array(int16.buffer)),
+    data: bytesToBase64(new Uint8Array(int16.buffer, int16.byteOffset, int16.byteLength)),
     mimeType: 'audio/pcm;rate=16000',
   };
+}
+
+export function createPcmBlob(data: Float32Array): Blob {
+  return pcm16ToBlob(floatToPcm16(data));
 }
\ No newline at end of file
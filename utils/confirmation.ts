@@ -0,0 +1,27 @@
+import { DualAgentId } from '../types';
+import type { ToolRisk } from '../tools';
+
+// A risky tool call waiting on the user's OK
+export interface ToolConfirmation {
+    id: string; // The function call id
+    name: string;
+    summary: string;
+    risk: ToolRisk;
+    agent: DualAgentId;
+}
+
+// How a call got (or didn't get) the go-ahead; reported back to the model
+export type ToolDecision = 'auto' | 'approved' | 'denied' | 'timeout';
+
+export const needsConfirmation = (risk: ToolRisk, name: string, autoApprove: string[]): boolean =>
+    risk !== 'low' && !autoApprove.includes(name);
+
+const SPOKEN_YES = /\b(yes|yeah|yep|yup|sure|okay|ok|confirm(ed)?|go ahead|do it|haan|haa|ji haan|theek hai|kar do)\b/i;
+const SPOKEN_NO = /\b(no|nope|nah|don'?t|stop|cancel|deny|nahi|nahin|mat karo|ruko)\b/i;
+
+// Spoken answer to a confirmation card: true/false, or null if it isn't a clear yes or no
+export const parseVoiceDecision = (text: string): boolean | null => {
+    const yes = SPOKEN_YES.test(text);
+    const no = SPOKEN_NO.test(text);
+    return yes === no ? null : yes;
+};
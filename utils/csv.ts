@@ -0,0 +1,106 @@
+/**
+ * RFC 4180 CSV: fields may be quoted, quoted fields may contain commas, line breaks and
+ * doubled quotes (""), and records end in CRLF or LF. Rows are padded to the widest row
+ * so the grid is always rectangular.
+ */
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let i = 0;
+
+    const endField = () => {
+        row.push(field);
+        field = '';
+    };
+    const endRow = () => {
+        endField();
+        rows.push(row);
+        row = [];
+    };
+
+    while (i < text.length) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"') {
+                if (text[i + 1] === '"') {
+                    field += '"';
+                    i += 2;
+                    continue;
+                }
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+            i++;
+            continue;
+        }
+
+        if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === ',') {
+            endField();
+        } else if (char === '\r' && text[i + 1] === '\n') {
+            endRow();
+            i++;
+        } else if (char === '\n' || char === '\r') {
+            endRow();
+        } else {
+            field += char;
+        }
+        i++;
+    }
+    // A trailing line break doesn't start another record
+    if (field !== '' || row.length > 0) endRow();
+
+    const width = Math.max(0, ...rows.map(r => r.length));
+    return rows.map(r => r.length < width ? [...r, ...Array(width - r.length).fill('')] : r);
+};
+
+const needsQuotes = (field: string): boolean => /[",\r\n]/.test(field) || field !== field.trim();
+
+export const serializeCsv = (rows: string[][]): string =>
+    rows
+        .map(row => row.map(field => needsQuotes(field) ? `"${field.replace(/"/g, '""')}"` : field).join(','))
+        .join('\n');
+
+// "A" -> 0, "Z" -> 25, "AA" -> 26
+export const columnIndex = (letters: string): number =>
+    letters.toUpperCase().split('').reduce((index, char) => index * 26 + char.charCodeAt(0) - 64, 0) - 1;
+
+export const columnName = (index: number): string => {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+};
+
+// "B3" -> { row: 2, col: 1 } (zero-based); null if it isn't a cell reference
+export const parseCellRef = (ref: string): { row: number; col: number } | null => {
+    const match = /^([A-Za-z]+)([1-9]\d*)$/.exec(ref.trim());
+    if (!match) return null;
+    return { row: parseInt(match[2], 10) - 1, col: columnIndex(match[1]) };
+};
+
+export const cellName = (row: number, col: number): string => `${columnName(col)}${row + 1}`;
+
+/**
+ * Writes individual cells (A1 notation) into a CSV, growing the grid as needed.
+ * Throws on a malformed reference so callers can report which one was wrong.
+ */
+export const patchCsvCells = (csv: string, updates: { cell: string; value: string }[]): string => {
+    const rows = parseCsv(csv);
+    updates.forEach(({ cell, value }) => {
+        const ref = parseCellRef(cell);
+        if (!ref) throw new Error(`Invalid cell reference: ${cell}`);
+        while (rows.length <= ref.row) rows.push([]);
+        const width = Math.max(rows[0]?.length ?? 0, ref.col + 1);
+        rows.forEach(row => {
+            while (row.length < width) row.push('');
+        });
+        rows[ref.row][ref.col] = value;
+    });
+    return serializeCsv(rows);
+};
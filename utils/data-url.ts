@@ -0,0 +1,49 @@
+export const isDataUrl = (value: string): boolean => value.startsWith('data:');
+
+// "data:<mime>[;charset=...][;base64],<payload>"
+const dataUrlHeader = (dataUrl: string): string[] => dataUrl.slice(5, dataUrl.indexOf(',')).split(';');
+
+export const dataUrlMimeType = (dataUrl: string): string =>
+    dataUrlHeader(dataUrl)[0] || 'application/octet-stream';
+
+// Synchronous so it can run inside an IndexedDB upgrade transaction.
+// Plain data URLs (e.g. "data:image/svg+xml,<svg...") are percent-encoded text, not base64.
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+    const payload = dataUrl.slice(dataUrl.indexOf(',') + 1);
+    const type = dataUrlMimeType(dataUrl);
+    if (!dataUrlHeader(dataUrl).includes('base64')) {
+        let text = payload;
+        try {
+            text = decodeURIComponent(payload);
+        } catch (e) {
+            // A stray "%" that isn't an escape; browsers take the text as written
+        }
+        return new Blob([text], { type });
+    }
+    const byteString = atob(payload);
+    const bytes = new Uint8Array(byteString.length);
+    for (let i = 0; i < byteString.length; i++) {
+        bytes[i] = byteString.charCodeAt(i);
+    }
+    return new Blob([bytes], { type });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+};
+
+// Cheap fingerprint of a (possibly multi-MB) data URL: length plus a sampled FNV-1a hash
+export const dataUrlFingerprint = (dataUrl: string): string => {
+    let hash = 0x811c9dc5;
+    const step = Math.max(1, Math.floor(dataUrl.length / 4096));
+    for (let i = 0; i < dataUrl.length; i += step) {
+        hash ^= dataUrl.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `${dataUrl.length.toString(36)}${(hash >>> 0).toString(36)}`;
+};
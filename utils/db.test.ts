@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { SessionData } from '../types';
+import { deleteSession, getSession, listSessionSummaries, openDB, saveSession, saveSessionDelta } from './db';
+
+const PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+const createSession = (id: string): SessionData => ({
+    id,
+    startTime: Number(id),
+    endTime: Number(id) + 1000,
+    isDualMode: false,
+    logs: [
+        { role: 'user', text: 'Plan the thumbnail budget', timestamp: new Date(Number(id) + 100) },
+        { role: 'model', text: 'On it', timestamp: new Date(Number(id) + 200), agent: 'crack' },
+    ],
+    canvasItems: [
+        {
+            id: 'note',
+            type: 'note',
+            title: 'Plan',
+            content: '- [ ] Draft',
+            timestamp: new Date(Number(id) + 300),
+            revisions: [{ title: 'Plan', content: '- [ ] Draft', timestamp: new Date(Number(id) + 300), author: 'agent' }],
+        },
+        { id: 'image', type: 'image', title: 'Thumb', content: PNG, timestamp: new Date(Number(id) + 400) },
+    ],
+    trash: [
+        { id: 'old', type: 'note', title: 'Old', content: 'gone', timestamp: new Date(Number(id) + 50), deletedAt: new Date(Number(id) + 500), deletedBy: 'user' },
+    ],
+});
+
+const readAll = async <T,>(storeName: string): Promise<T[]> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const request = db.transaction([storeName], 'readonly').objectStore(storeName).getAll();
+        request.onsuccess = () => resolve(request.result as T[]);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+// The pre-v5 layout: one whole SessionData object per row of `sessions`
+const seedV2 = (sessions: SessionData[]): Promise<void> => new Promise((resolve, reject) => {
+    const request = indexedDB.open('MrCrackDB', 2);
+    request.onupgradeneeded = () => request.result.createObjectStore('sessions', { keyPath: 'id' });
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+        const db = request.result;
+        const transaction = db.transaction(['sessions'], 'readwrite');
+        sessions.forEach(session => transaction.objectStore('sessions').put(session));
+        transaction.oncomplete = () => {
+            db.close();
+            resolve();
+        };
+        transaction.onerror = () => reject(transaction.error);
+    };
+});
+
+beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+});
+
+describe('v2 to v6 upgrade', () => {
+    it('splits legacy sessions into the session, log, canvas and blob stores', async () => {
+        const { trash, ...legacy } = createSession('1000');
+        await seedV2([legacy]);
+
+        const db = await openDB();
+        expect(db.version).toBe(6);
+
+        const [record] = await readAll<Record<string, unknown>>('sessions');
+        expect(record).toEqual({ id: '1000', startTime: 1000, endTime: 2000, isDualMode: false });
+
+        const logs = await readAll<Record<string, unknown>>('logs');
+        expect(logs.map(log => [log.sessionId, log.seq, log.text])).toEqual([
+            ['1000', 0, 'Plan the thumbnail budget'],
+            ['1000', 1, 'On it'],
+        ]);
+
+        const items = await readAll<Record<string, unknown>>('canvasItems');
+        const image = items.find(item => item.id === 'image')!;
+        expect(items.map(item => [item.id, item.position])).toEqual([['image', 1], ['note', 0]]);
+        expect(image.content).toBe('');
+
+        const blobs = await readAll<{ id: string; data: Blob }>('blobs');
+        expect(blobs.map(blob => blob.id)).toEqual([image.blobId]);
+        expect(blobs[0].data.type).toBe('image/png');
+
+        expect(await getSession('1000')).toEqual({ ...legacy, trash: [] });
+    });
+
+    it('builds the search index', async () => {
+        await seedV2([createSession('1000'), { ...createSession('2000'), logs: [] }]);
+
+        const [index] = await readAll<{ id: string; terms: string[] }>('searchIndex');
+        expect(index.terms).toContain('budget');
+
+        const hits = await listSessionSummaries({ text: 'budget' });
+        expect(hits.map(hit => hit.id)).toEqual(['1000']);
+        expect(hits[0]).toMatchObject({ messageCount: 2, itemCount: 2, hasImages: true });
+    });
+});
+
+describe('session storage', () => {
+    it('loads a saved session back unchanged', async () => {
+        const session = createSession('1000');
+        await saveSession(session);
+
+        expect(await getSession('1000')).toEqual(session);
+    });
+
+    it('stores an unchanged image once across saves', async () => {
+        const session = createSession('1000');
+        await saveSession(session);
+        await saveSession({ ...session, logs: [...session.logs, { role: 'user', text: 'Again', timestamp: new Date(1600) }] });
+        await saveSessionDelta({ session, logSeqs: [], itemIds: ['image'], removedItemIds: [] });
+
+        expect(await readAll('blobs')).toHaveLength(1);
+    });
+
+    it('stores images from plain, non-base64 data URLs', async () => {
+        const svg = `data:image/svg+xml,${encodeURIComponent('<svg xmlns="http://www.w3.org/2000/svg"><rect width="1" height="1"/></svg>')}`;
+        const session = createSession('1000');
+        await saveSession({ ...session, canvasItems: [{ id: 'vector', type: 'image', title: 'Logo', content: svg, timestamp: new Date(1300) }] });
+
+        const [blob] = await readAll<{ data: Blob }>('blobs');
+        expect(blob.data.type).toBe('image/svg+xml');
+        expect(await blob.data.text()).toBe('<svg xmlns="http://www.w3.org/2000/svg"><rect width="1" height="1"/></svg>');
+        const [item] = (await getSession('1000'))!.canvasItems;
+        expect(item.content.startsWith('data:image/svg+xml;base64,')).toBe(true);
+    });
+
+    it('deletes logs, items, blobs and search records with the session', async () => {
+        await saveSession(createSession('1000'));
+        await saveSession(createSession('2000'));
+
+        await deleteSession('1000');
+
+        expect(await getSession('1000')).toBeUndefined();
+        for (const store of ['sessions', 'logs', 'canvasItems', 'blobs', 'searchIndex']) {
+            const records = await readAll<{ id?: string; sessionId?: string }>(store);
+            expect(records.length, store).toBeGreaterThan(0);
+            expect(records.every(record => (record.sessionId ?? record.id) === '2000'), store).toBe(true);
+        }
+    });
+});
@@ -1,8 +1,202 @@
-import { SessionData } from '../types';
+import { CanvasItem, MessageLog, PersonaProfile, SessionData, SessionSummary } from '../types';
+import { SessionSearchHit, SessionSearchQuery, matchesFilters, rankSession, sessionTerms, toSessionSummary, tokenize } from './search';
+import { ImportConflictStrategy, mergeSessions } from './export';
+import { blobToDataUrl, dataUrlFingerprint, dataUrlToBlob, isDataUrl } from './data-url';
 
 const DB_NAME = 'MrCrackDB';
-const DB_VERSION = 2; // Increment version for schema change if needed, though IDB is loose
-const STORE_NAME = 'sessions';
+// v2: one SessionData object per session
+// v3: searchIndex store, v4: summaries in searchIndex
+// v5: sessions split into session / log / canvas item / image blob stores
+// v6: persona profiles and app settings
+const DB_VERSION = 6;
+
+const SESSION_STORE = 'sessions';
+const LOG_STORE = 'logs';
+const CANVAS_STORE = 'canvasItems';
+const BLOB_STORE = 'blobs';
+const SEARCH_STORE = 'searchIndex';
+const ALL_STORES = [SESSION_STORE, LOG_STORE, CANVAS_STORE, BLOB_STORE, SEARCH_STORE];
+const PERSONA_STORE = 'personas';
+const SETTINGS_STORE = 'settings';
+
+const ACTIVE_PERSONA_KEY = 'activePersonaId';
+
+interface SessionRecord {
+    id: string;
+    startTime: number;
+    endTime?: number;
+    isDualMode?: boolean;
+}
+
+// Keyed [sessionId, seq]
+interface LogRecord extends MessageLog {
+    sessionId: string;
+    seq: number;
+}
+
+// Keyed [sessionId, id]. Image content lives in the blob store and is empty here.
+// Trashed items share the store; `position` then counts within the trash.
+interface CanvasItemRecord extends CanvasItem {
+    sessionId: string;
+    position: number;
+    blobId?: string;
+    trashed?: boolean;
+}
+
+// Keyed `${sessionId}:${itemId}:${fingerprint}` so a changed image gets a new blob
+interface BlobRecord {
+    id: string;
+    sessionId: string;
+    data: Blob;
+}
+
+// Keyed by `key`; small app-wide preferences
+interface SettingRecord {
+    key: string;
+    value: unknown;
+}
+
+// One row per session: its summary plus distinct terms, indexed multiEntry so a term lookup yields session ids
+interface SearchIndexRecord extends SessionSummary {
+    terms: string[];
+}
+
+const toSearchRecord = (session: SessionData): SearchIndexRecord => ({
+    ...toSessionSummary(session),
+    terms: sessionTerms(session),
+});
+
+const toSummary = ({ terms, ...summary }: SearchIndexRecord): SessionSummary => summary;
+
+// Every [sessionId, ...] key of one session: [id] sorts before them and [id, []] after
+const sessionRange = (sessionId: string) => IDBKeyRange.bound([sessionId], [sessionId, []]);
+const blobRange = (sessionId: string) => IDBKeyRange.bound(`${sessionId}:`, `${sessionId}:\uffff`);
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+const blobPrefix = (sessionId: string, itemId: string) => `${sessionId}:${itemId}:`;
+
+// Image data URLs move to the blob store; the item row only keeps the blob id
+const toItemRecord = (sessionId: string, item: CanvasItem, position: number, trashed: boolean): { record: CanvasItemRecord; image?: [string, string] } => {
+    const base = { ...item, sessionId, position, ...(trashed ? { trashed } : {}) };
+    if (item.type === 'image' && isDataUrl(item.content)) {
+        const blobId = `${blobPrefix(sessionId, item.id)}${dataUrlFingerprint(item.content)}`;
+        return { record: { ...base, content: '', blobId }, image: [blobId, item.content] };
+    }
+    return { record: base };
+};
+
+const toSessionRecord = (session: SessionData): SessionRecord => ({
+    id: session.id,
+    startTime: session.startTime,
+    endTime: session.endTime,
+    isDualMode: session.isDualMode,
+});
+
+const writeItem = (transaction: IDBTransaction, sessionId: string, item: CanvasItem, position: number, existingBlobIds: Set<string>, trashed = false) => {
+    const { record, image } = toItemRecord(sessionId, item, position, trashed);
+    transaction.objectStore(CANVAS_STORE).put(record);
+
+    const blobStore = transaction.objectStore(BLOB_STORE);
+    const prefix = blobPrefix(sessionId, item.id);
+    existingBlobIds.forEach(blobId => {
+        if (blobId.startsWith(prefix) && blobId !== image?.[0]) blobStore.delete(blobId);
+    });
+    if (image && !existingBlobIds.has(image[0])) {
+        blobStore.put({ id: image[0], sessionId, data: dataUrlToBlob(image[1]) } as BlobRecord);
+    }
+};
+
+/**
+ * Replaces everything stored for one session inside `transaction`. Image blobs that are
+ * already stored (same item, same content) are left alone, which keeps saves of
+ * image-heavy sessions cheap.
+ */
+const writeSession = (transaction: IDBTransaction, session: SessionData, existingBlobIds: Set<string>) => {
+    transaction.objectStore(SESSION_STORE).put(toSessionRecord(session));
+
+    const logStore = transaction.objectStore(LOG_STORE);
+    logStore.delete(sessionRange(session.id));
+    session.logs.forEach((log, seq) => logStore.put({ ...log, sessionId: session.id, seq } as LogRecord));
+
+    transaction.objectStore(CANVAS_STORE).delete(sessionRange(session.id));
+    session.canvasItems.forEach((item, position) => writeItem(transaction, session.id, item, position, existingBlobIds));
+    session.trash?.forEach((item, position) => writeItem(transaction, session.id, item, position, existingBlobIds, true));
+
+    // Blobs of items that no longer exist
+    const itemIds = new Set([...session.canvasItems, ...(session.trash ?? [])].map(item => item.id));
+    const blobStore = transaction.objectStore(BLOB_STORE);
+    existingBlobIds.forEach(blobId => {
+        const itemId = blobId.slice(session.id.length + 1, blobId.lastIndexOf(':'));
+        if (!itemIds.has(itemId)) blobStore.delete(blobId);
+    });
+
+    transaction.objectStore(SEARCH_STORE).put(toSearchRecord(session));
+};
+
+const createStores = (db: IDBDatabase, transaction: IDBTransaction) => {
+    const sessionStore = db.objectStoreNames.contains(SESSION_STORE)
+        ? transaction.objectStore(SESSION_STORE)
+        : db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+    if (!sessionStore.indexNames.contains('startTime')) {
+        sessionStore.createIndex('startTime', 'startTime');
+    }
+
+    if (!db.objectStoreNames.contains(LOG_STORE)) {
+        const logStore = db.createObjectStore(LOG_STORE, { keyPath: ['sessionId', 'seq'] });
+        logStore.createIndex('sessionId', 'sessionId');
+        logStore.createIndex('timestamp', 'timestamp');
+        logStore.createIndex('role', 'role');
+    }
+    if (!db.objectStoreNames.contains(CANVAS_STORE)) {
+        const canvasStore = db.createObjectStore(CANVAS_STORE, { keyPath: ['sessionId', 'id'] });
+        canvasStore.createIndex('sessionId', 'sessionId');
+        canvasStore.createIndex('timestamp', 'timestamp');
+        canvasStore.createIndex('type', 'type');
+    }
+    if (!db.objectStoreNames.contains(BLOB_STORE)) {
+        const blobStore = db.createObjectStore(BLOB_STORE, { keyPath: 'id' });
+        blobStore.createIndex('sessionId', 'sessionId');
+    }
+    if (!db.objectStoreNames.contains(SEARCH_STORE)) {
+        const searchStore = db.createObjectStore(SEARCH_STORE, { keyPath: 'id' });
+        searchStore.createIndex('terms', 'terms', { multiEntry: true });
+        searchStore.createIndex('startTime', 'startTime');
+    }
+    if (!db.objectStoreNames.contains(PERSONA_STORE)) {
+        db.createObjectStore(PERSONA_STORE, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+        db.createObjectStore(SETTINGS_STORE, { keyPath: 'key' });
+    }
+};
+
+// v2-v4 kept whole SessionData objects in `sessions`; split each one into the v5 stores
+const migrateToSplitStores = (transaction: IDBTransaction) => {
+    transaction.objectStore(SESSION_STORE).openCursor().onsuccess = (e) => {
+        const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+        const legacy = cursor.value as Partial<SessionData>;
+        if (Array.isArray(legacy.logs) && Array.isArray(legacy.canvasItems)) {
+            // writeSession overwrites the cursor's record with the slim SessionRecord
+            writeSession(transaction, legacy as SessionData, new Set());
+        }
+        cursor.continue();
+    };
+};
 
 export const openDB = (): Promise<IDBDatabase> => {
     return new Promise((resolve, reject) => {
@@ -10,8 +204,11 @@ export const openDB = (): Promise<IDBDatabase> => {
 
         request.onupgradeneeded = (event) => {
             const db = (event.target as IDBOpenDBRequest).result;
-            if (!db.objectStoreNames.contains(STORE_NAME)) {
-                db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            const transaction = (event.target as IDBOpenDBRequest).transaction!;
+            createStores(db, transaction);
+
+            if (event.oldVersion > 0 && event.oldVersion < 5) {
+                migrateToSplitStores(transaction);
             }
         };
 
@@ -25,43 +222,266 @@ export const openDB = (): Promise<IDBDatabase> => {
     });
 };
 
+// Reassembles a SessionData; `withImages: false` skips blob reads and leaves image content empty
+const readSession = async (db: IDBDatabase, id: string, withImages: boolean = true): Promise<SessionData | undefined> => {
+    const stores = withImages ? [SESSION_STORE, LOG_STORE, CANVAS_STORE, BLOB_STORE] : [SESSION_STORE, LOG_STORE, CANVAS_STORE];
+    const transaction = db.transaction(stores, 'readonly');
+    const [record, logs, items, blobs] = await Promise.all([
+        requestResult(transaction.objectStore(SESSION_STORE).get(id) as IDBRequest<SessionRecord | undefined>),
+        requestResult(transaction.objectStore(LOG_STORE).getAll(sessionRange(id)) as IDBRequest<LogRecord[]>),
+        requestResult(transaction.objectStore(CANVAS_STORE).getAll(sessionRange(id)) as IDBRequest<CanvasItemRecord[]>),
+        withImages
+            ? requestResult(transaction.objectStore(BLOB_STORE).getAll(blobRange(id)) as IDBRequest<BlobRecord[]>)
+            : Promise.resolve([] as BlobRecord[]),
+    ]);
+    if (!record) return undefined;
+
+    const blobsById = new Map(blobs.map(blob => [blob.id, blob.data]));
+    const toItems = (records: CanvasItemRecord[]) => Promise.all(
+        records
+            .sort((a, b) => a.position - b.position)
+            .map(async ({ sessionId, position, blobId, trashed, ...item }): Promise<CanvasItem> => {
+                const blob = blobId ? blobsById.get(blobId) : undefined;
+                return blob ? { ...item, content: await blobToDataUrl(blob) } : item;
+            })
+    );
+    const [canvasItems, trash] = await Promise.all([
+        toItems(items.filter(item => !item.trashed)),
+        toItems(items.filter(item => item.trashed)),
+    ]);
+
+    return {
+        ...record,
+        logs: logs.map(({ sessionId, seq, ...log }) => log),
+        canvasItems,
+        trash,
+    };
+};
+
 export const saveSession = async (session: SessionData): Promise<void> => {
     const db = await openDB();
-    return new Promise((resolve, reject) => {
-        const transaction = db.transaction([STORE_NAME], 'readwrite');
-        const store = transaction.objectStore(STORE_NAME);
-        const request = store.put(session);
+    const transaction = db.transaction(ALL_STORES, 'readwrite');
+    const done = transactionDone(transaction);
 
-        request.onsuccess = () => resolve();
-        request.onerror = () => reject(request.error);
-    });
+    // Existing blob keys first, so unchanged images are not rewritten
+    const existing = transaction.objectStore(BLOB_STORE).getAllKeys(blobRange(session.id));
+    existing.onsuccess = () => {
+        writeSession(transaction, session, new Set(existing.result as string[]));
+    };
+
+    return done;
+};
+
+export interface ItemSlot {
+    item: CanvasItem;
+    position: number;
+    trashed: boolean;
+}
+
+// Where each canvas and trash item sits, by id
+export const itemSlots = (session: SessionData): Map<string, ItemSlot> => {
+    const slots = new Map<string, ItemSlot>();
+    session.canvasItems.forEach((item, position) => slots.set(item.id, { item, position, trashed: false }));
+    session.trash?.forEach((item, position) => slots.set(item.id, { item, position, trashed: true }));
+    return slots;
+};
+
+// What changed since the last write; see utils/session-persistence.ts
+export interface SessionDelta {
+    session: SessionData;     // Full snapshot, for the session row and search index
+    logSeqs: number[];        // Indices into session.logs to upsert
+    itemIds: string[];        // Canvas or trash items to upsert (position = index in its list)
+    removedItemIds: string[];
+}
+
+// Writes only the changed log lines and canvas items of a session
+export const saveSessionDelta = async (delta: SessionDelta): Promise<void> => {
+    const { session } = delta;
+    const db = await openDB();
+    const transaction = db.transaction(ALL_STORES, 'readwrite');
+    const done = transactionDone(transaction);
+
+    const existing = transaction.objectStore(BLOB_STORE).getAllKeys(blobRange(session.id));
+    existing.onsuccess = () => {
+        const existingBlobIds = new Set(existing.result as string[]);
+        transaction.objectStore(SESSION_STORE).put(toSessionRecord(session));
+
+        const logStore = transaction.objectStore(LOG_STORE);
+        delta.logSeqs.forEach(seq => logStore.put({ ...session.logs[seq], sessionId: session.id, seq } as LogRecord));
+
+        const slots = itemSlots(session);
+        delta.itemIds.forEach(itemId => {
+            const slot = slots.get(itemId);
+            if (slot) writeItem(transaction, session.id, slot.item, slot.position, existingBlobIds, slot.trashed);
+        });
+
+        const canvasStore = transaction.objectStore(CANVAS_STORE);
+        const blobStore = transaction.objectStore(BLOB_STORE);
+        delta.removedItemIds.forEach(itemId => {
+            canvasStore.delete([session.id, itemId]);
+            blobStore.delete(IDBKeyRange.bound(blobPrefix(session.id, itemId), `${blobPrefix(session.id, itemId)}\uffff`));
+        });
+
+        transaction.objectStore(SEARCH_STORE).put(toSearchRecord(session));
+    };
+
+    return done;
+};
+
+export const getSession = async (id: string): Promise<SessionData | undefined> => {
+    const db = await openDB();
+    return readSession(db, id);
 };
 
 export const getAllSessions = async (): Promise<SessionData[]> => {
     const db = await openDB();
-    return new Promise((resolve, reject) => {
-        const transaction = db.transaction([STORE_NAME], 'readonly');
-        const store = transaction.objectStore(STORE_NAME);
-        const request = store.getAll();
-
-        request.onsuccess = () => {
-            // Sort by start time descending
-            const sessions = request.result as SessionData[];
-            sessions.sort((a, b) => b.startTime - a.startTime);
-            resolve(sessions);
-        };
-        request.onerror = () => reject(request.error);
-    });
+    const records = await requestResult(
+        db.transaction([SESSION_STORE], 'readonly').objectStore(SESSION_STORE).getAll() as IDBRequest<SessionRecord[]>
+    );
+    // Sort by start time descending
+    records.sort((a, b) => b.startTime - a.startTime);
+
+    const sessions = await Promise.all(records.map(record => readSession(db, record.id)));
+    return sessions.filter((session): session is SessionData => !!session);
 };
 
 export const deleteSession = async (id: string): Promise<void> => {
     const db = await openDB();
-    return new Promise((resolve, reject) => {
-        const transaction = db.transaction([STORE_NAME], 'readwrite');
-        const store = transaction.objectStore(STORE_NAME);
-        const request = store.delete(id);
+    const transaction = db.transaction(ALL_STORES, 'readwrite');
+    transaction.objectStore(SESSION_STORE).delete(id);
+    transaction.objectStore(LOG_STORE).delete(sessionRange(id));
+    transaction.objectStore(CANVAS_STORE).delete(sessionRange(id));
+    transaction.objectStore(BLOB_STORE).delete(blobRange(id));
+    transaction.objectStore(SEARCH_STORE).delete(id);
+    return transactionDone(transaction);
+};
 
-        request.onsuccess = () => resolve();
-        request.onerror = () => reject(request.error);
-    });
-};
\ No newline at end of file
+// Index rows in the query's date range that pass its filters, newest first
+const findSearchRecords = async (db: IDBDatabase, query: SessionSearchQuery, terms: string[]): Promise<SearchIndexRecord[]> => {
+    const searchStore = db.transaction([SEARCH_STORE], 'readonly').objectStore(SEARCH_STORE);
+    let records: SearchIndexRecord[];
+
+    if (terms.length > 0) {
+        const termIndex = searchStore.index('terms');
+        const matches = await Promise.all(terms.map(term =>
+            requestResult(termIndex.getAll(IDBKeyRange.bound(term, term + '\uffff')) as IDBRequest<SearchIndexRecord[]>)
+        ));
+        const byId = new Map<string, SearchIndexRecord>();
+        const hitCounts = new Map<string, number>();
+        matches.forEach(termMatches => {
+            new Set(termMatches.map(r => r.id)).forEach(id => hitCounts.set(id, (hitCounts.get(id) ?? 0) + 1));
+            termMatches.forEach(r => byId.set(r.id, r));
+        });
+        records = Array.from(byId.values());
+        if (query.matchAll) records = records.filter(r => hitCounts.get(r.id) === terms.length);
+    } else {
+        const range = IDBKeyRange.bound(query.from ?? 0, query.to ?? Number.MAX_SAFE_INTEGER);
+        records = await requestResult(searchStore.index('startTime').getAll(range) as IDBRequest<SearchIndexRecord[]>);
+    }
+
+    return records
+        .filter(record => matchesFilters(record, query))
+        .sort((a, b) => b.startTime - a.startTime);
+};
+
+// Memory list without loading any full sessions
+export const listSessionSummaries = async (query: SessionSearchQuery = {}): Promise<SessionSummary[]> => {
+    const db = await openDB();
+    const records = await findSearchRecords(db, query, tokenize(query.text ?? ''));
+    return records.slice(0, query.limit ?? records.length).map(toSummary);
+};
+
+/**
+ * Finds sessions by keyword (prefix match per term), date range and summary filters
+ * using the search index, then loads only the candidates (without image data) to rank
+ * them and extract snippets.
+ */
+export const searchSessions = async (query: SessionSearchQuery): Promise<SessionSearchHit[]> => {
+    const db = await openDB();
+    const terms = tokenize(query.text ?? '');
+    const records = await findSearchRecords(db, query, terms);
+    const sessions = await Promise.all(records.map(record => readSession(db, record.id, false)));
+
+    return sessions
+        .filter((session): session is SessionData => !!session)
+        .map(session => rankSession(session, terms))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, query.limit ?? 10);
+};
+
+export interface ImportResult {
+    added: number;
+    merged: number;
+    replaced: number;
+    skipped: number;
+}
+
+// `strategy` decides what happens when an imported session id already exists
+export const importSessions = async (sessions: SessionData[], strategy: ImportConflictStrategy): Promise<ImportResult> => {
+    const db = await openDB();
+    const result: ImportResult = { added: 0, merged: 0, replaced: 0, skipped: 0 };
+
+    for (const incoming of sessions) {
+        const existing = await readSession(db, incoming.id);
+        if (!existing) {
+            await saveSession(incoming);
+            result.added++;
+        } else if (strategy === 'skip') {
+            result.skipped++;
+        } else if (strategy === 'replace') {
+            await saveSession(incoming);
+            result.replaced++;
+        } else {
+            await saveSession(mergeSessions(existing, incoming));
+            result.merged++;
+        }
+    }
+
+    return result;
+};
+
+// --- Persona profiles ---
+
+export const listPersonas = async (): Promise<PersonaProfile[]> => {
+    const db = await openDB();
+    const personas = await requestResult(
+        db.transaction([PERSONA_STORE], 'readonly').objectStore(PERSONA_STORE).getAll() as IDBRequest<PersonaProfile[]>
+    );
+    return personas.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const savePersona = async (persona: PersonaProfile): Promise<void> => {
+    const db = await openDB();
+    const transaction = db.transaction([PERSONA_STORE], 'readwrite');
+    transaction.objectStore(PERSONA_STORE).put(persona);
+    return transactionDone(transaction);
+};
+
+export const deletePersona = async (id: string): Promise<void> => {
+    const db = await openDB();
+    const transaction = db.transaction([PERSONA_STORE, SETTINGS_STORE], 'readwrite');
+    transaction.objectStore(PERSONA_STORE).delete(id);
+    // Forget the selection if it pointed at the deleted profile
+    const active = transaction.objectStore(SETTINGS_STORE).get(ACTIVE_PERSONA_KEY);
+    active.onsuccess = () => {
+        if ((active.result as SettingRecord | undefined)?.value === id) {
+            transaction.objectStore(SETTINGS_STORE).delete(ACTIVE_PERSONA_KEY);
+        }
+    };
+    return transactionDone(transaction);
+};
+
+export const getActivePersonaId = async (): Promise<string | undefined> => {
+    const db = await openDB();
+    const record = await requestResult(
+        db.transaction([SETTINGS_STORE], 'readonly').objectStore(SETTINGS_STORE).get(ACTIVE_PERSONA_KEY) as IDBRequest<SettingRecord | undefined>
+    );
+    return typeof record?.value === 'string' ? record.value : undefined;
+};
+
+export const setActivePersonaId = async (id: string): Promise<void> => {
+    const db = await openDB();
+    const transaction = db.transaction([SETTINGS_STORE], 'readwrite');
+    transaction.objectStore(SETTINGS_STORE).put({ key: ACTIVE_PERSONA_KEY, value: id } as SettingRecord);
+    return transactionDone(transaction);
+};
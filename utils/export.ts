@@ -0,0 +1,162 @@
+import { CanvasItem, ItemRevision, MessageLog, SessionData } from '../types';
+
+const BUNDLE_FORMAT = 'mrcrack-sessions';
+const BUNDLE_VERSION = 1;
+
+export type ImportConflictStrategy = 'merge' | 'replace' | 'skip';
+
+// JSON-safe item: Dates become ISO strings, images stay inline as data URLs
+type SerializedItem = Omit<CanvasItem, 'timestamp' | 'revisions' | 'deletedAt'> & {
+    timestamp: string;
+    revisions?: (Omit<ItemRevision, 'timestamp'> & { timestamp: string })[];
+    deletedAt?: string;
+};
+
+type SerializedSession = Omit<SessionData, 'logs' | 'canvasItems' | 'trash'> & {
+    logs: (Omit<MessageLog, 'timestamp'> & { timestamp: string })[];
+    canvasItems: SerializedItem[];
+    trash?: SerializedItem[];
+};
+
+const serializeItem = (item: CanvasItem): SerializedItem => ({
+    ...item,
+    timestamp: item.timestamp.toISOString(),
+    revisions: item.revisions?.map(revision => ({ ...revision, timestamp: revision.timestamp.toISOString() })),
+    deletedAt: item.deletedAt?.toISOString(),
+});
+
+const reviveItem = (item: SerializedItem): CanvasItem => ({
+    ...item,
+    timestamp: new Date(item.timestamp),
+    revisions: item.revisions?.map(revision => ({ ...revision, timestamp: new Date(revision.timestamp) })),
+    deletedAt: item.deletedAt ? new Date(item.deletedAt) : undefined,
+});
+
+interface SessionBundle {
+    format: typeof BUNDLE_FORMAT;
+    version: number;
+    exportedAt: string;
+    sessions: SerializedSession[];
+}
+
+export const createSessionBundle = (sessions: SessionData[]): string => {
+    const bundle: SessionBundle = {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        sessions: sessions.map(session => ({
+            ...session,
+            logs: session.logs.map(log => ({ ...log, timestamp: log.timestamp.toISOString() })),
+            canvasItems: session.canvasItems.map(serializeItem),
+            trash: session.trash?.map(serializeItem),
+        })),
+    };
+    return JSON.stringify(bundle, null, 2);
+};
+
+export const parseSessionBundle = (json: string): SessionData[] => {
+    let bundle: SessionBundle;
+    try {
+        bundle = JSON.parse(json);
+    } catch (e) {
+        throw new Error('File is not valid JSON.');
+    }
+    if (bundle?.format !== BUNDLE_FORMAT || !Array.isArray(bundle.sessions)) {
+        throw new Error('File is not a Mr. Crack session export.');
+    }
+    if (bundle.version > BUNDLE_VERSION) {
+        throw new Error(`Export version ${bundle.version} is newer than this app supports.`);
+    }
+
+    return bundle.sessions.map((session, i) => {
+        if (typeof session.id !== 'string' || typeof session.startTime !== 'number' || !Array.isArray(session.logs) || !Array.isArray(session.canvasItems)) {
+            throw new Error(`Session #${i + 1} in the export is malformed.`);
+        }
+        return {
+            ...session,
+            logs: session.logs.map(log => ({ ...log, timestamp: new Date(log.timestamp) })),
+            canvasItems: session.canvasItems.map(reviveItem),
+            trash: Array.isArray(session.trash) ? session.trash.map(reviveItem) : undefined,
+        };
+    });
+};
+
+/**
+ * Combines two copies of the same session: logs are unioned (deduplicated by time, role
+ * and text) and canvas items by id, with the newer item winning.
+ */
+export const mergeSessions = (existing: SessionData, incoming: SessionData): SessionData => {
+    const logKey = (log: MessageLog) => `${log.timestamp.getTime()}|${log.role}|${log.text}`;
+    const logs = new Map<string, MessageLog>();
+    [...existing.logs, ...incoming.logs].forEach(log => logs.set(logKey(log), log));
+
+    const items = new Map<string, CanvasItem>();
+    [...existing.canvasItems, ...incoming.canvasItems].forEach(item => {
+        const current = items.get(item.id);
+        if (!current || item.timestamp.getTime() >= current.timestamp.getTime()) items.set(item.id, item);
+    });
+
+    // Trash keeps what neither copy still has in its workspace
+    const trash = new Map<string, CanvasItem>();
+    [...(existing.trash ?? []), ...(incoming.trash ?? [])].forEach(item => {
+        if (!items.has(item.id)) trash.set(item.id, item);
+    });
+
+    return {
+        ...existing,
+        startTime: Math.min(existing.startTime, incoming.startTime),
+        endTime: Math.max(existing.endTime ?? 0, incoming.endTime ?? 0) || undefined,
+        logs: Array.from(logs.values()).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()),
+        canvasItems: Array.from(items.values()).sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()),
+        trash: Array.from(trash.values()).sort((a, b) => (b.deletedAt?.getTime() ?? 0) - (a.deletedAt?.getTime() ?? 0)),
+        isDualMode: existing.isDualMode || incoming.isDualMode,
+    };
+};
+
+export const sessionToMarkdown = (session: SessionData): string => {
+    const speaker = (log: MessageLog) => log.role === 'user' ? 'User' : log.role === 'model' ? (log.agent === 'jack' ? 'Jack' : 'Mr. Crack') : 'System';
+    const lines: string[] = [
+        `# Session ${new Date(session.startTime).toLocaleString()}`,
+        '',
+        `- ID: ${session.id}`,
+        `- Mode: ${session.isDualMode ? 'Dual Core' : 'Single'}`,
+    ];
+    if (session.endTime) {
+        lines.push(`- Duration: ${Math.round((session.endTime - session.startTime) / 1000)}s`);
+    }
+
+    if (session.canvasItems.length > 0) {
+        lines.push('', '## Workspace');
+        session.canvasItems.forEach(item => {
+            lines.push('', `### ${item.title} (${item.type})`, '');
+            if (item.type === 'image') {
+                lines.push(`![${item.title}](${item.content})`);
+            } else if (item.type === 'spreadsheet') {
+                lines.push('```csv', item.content, '```');
+            } else {
+                lines.push(item.content);
+            }
+        });
+    }
+
+    lines.push('', '## Transcript', '');
+    session.logs.forEach(log => {
+        const time = log.timestamp.toLocaleTimeString([], { hour12: false });
+        lines.push(`**${speaker(log)}** _${time}_: ${log.text.trim()}`, '');
+    });
+
+    return lines.join('\n');
+};
+
+export const toFileName = (title: string): string => title.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
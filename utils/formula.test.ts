@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateSheet } from './formula';
+
+// One-row sheet: the formula's result next to two number cells (A1=2, B1=3)
+const evaluate = (formula: string): string => evaluateSheet([['2', '3', formula]])[0][2];
+
+describe('evaluateSheet', () => {
+    it('evaluates arithmetic, references and aggregates', () => {
+        expect(evaluate('=A1*B1+1')).toBe('7');
+        expect(evaluate('=SUM(A1:B1, 5)')).toBe('10');
+        expect(evaluate('=AVERAGE(A1;B1)')).toBe('2.5');
+        expect(evaluate('=MAX()')).toBe('0');
+    });
+
+    it('requires a separator between function arguments', () => {
+        expect(evaluate('=SUM(1 2)')).toBe('#ERR!');
+        expect(evaluate('=SUM(A1 B1)')).toBe('#ERR!');
+        expect(evaluate('=SUM(1,)')).toBe('#ERR!');
+    });
+
+    it('reports division by zero and cycles', () => {
+        expect(evaluate('=A1/0')).toBe('#DIV/0!');
+        expect(evaluateSheet([['=B1', '=A1']])[0]).toEqual(['#CYCLE!', '#CYCLE!']);
+    });
+});
@@ -0,0 +1,208 @@
+import { parseCellRef } from './csv';
+
+// Spreadsheet-style error markers shown in place of a value
+type FormulaErrorCode = '#ERR!' | '#DIV/0!' | '#VALUE!' | '#REF!' | '#CYCLE!';
+
+class FormulaError extends Error {
+    constructor(public code: FormulaErrorCode) {
+        super(code);
+    }
+}
+
+// A value from a cell or an argument: numbers for arithmetic, text is skipped by aggregates
+type CellValue = number | string;
+
+const FUNCTIONS: Record<string, (values: number[]) => number> = {
+    SUM: values => values.reduce((sum, v) => sum + v, 0),
+    AVERAGE: values => {
+        if (values.length === 0) throw new FormulaError('#DIV/0!');
+        return values.reduce((sum, v) => sum + v, 0) / values.length;
+    },
+    MIN: values => values.length ? Math.min(...values) : 0,
+    MAX: values => values.length ? Math.max(...values) : 0,
+};
+
+const TOKEN = /\s*(?:(\d+(?:\.\d+)?|\.\d+)|([A-Za-z]+\d+(?::[A-Za-z]+\d+)?)|([A-Za-z]+)(?=\s*\()|([-+*/(),;]))/y;
+
+const isSeparator = (text: string | undefined): boolean => text === ',' || text === ';';
+
+interface Token {
+    kind: 'number' | 'ref' | 'func' | 'op';
+    text: string;
+}
+
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = [];
+    TOKEN.lastIndex = 0;
+    while (TOKEN.lastIndex < source.length) {
+        if (/^\s*$/.test(source.slice(TOKEN.lastIndex))) break;
+        const match = TOKEN.exec(source);
+        if (!match) throw new FormulaError('#ERR!');
+        if (match[1]) tokens.push({ kind: 'number', text: match[1] });
+        else if (match[2]) tokens.push({ kind: 'ref', text: match[2].toUpperCase() });
+        else if (match[3]) tokens.push({ kind: 'func', text: match[3].toUpperCase() });
+        else tokens.push({ kind: 'op', text: match[4] });
+    }
+    return tokens;
+};
+
+const toNumber = (value: CellValue): number => {
+    if (typeof value === 'number') return value;
+    if (value.trim() === '') return 0;
+    const n = Number(value);
+    if (Number.isNaN(n)) throw new FormulaError('#VALUE!');
+    return n;
+};
+
+/**
+ * Evaluates a grid of raw cell text. Cells starting with "=" are formulas: + - * / with
+ * parentheses, A1 references, and SUM/AVERAGE/MIN/MAX over references or A1:B3 ranges.
+ * Row 1 is the first CSV row, header included. Every other cell shows as written.
+ */
+export const evaluateSheet = (rows: string[][]): string[][] => {
+    const cache = new Map<string, CellValue>();
+    const visiting = new Set<string>();
+
+    const cellValue = (row: number, col: number): CellValue => {
+        const raw = rows[row]?.[col];
+        if (raw === undefined) return '';
+        if (!raw.startsWith('=')) return raw;
+
+        const key = `${row}:${col}`;
+        const cached = cache.get(key);
+        if (cached !== undefined) return cached;
+        if (visiting.has(key)) throw new FormulaError('#CYCLE!');
+
+        visiting.add(key);
+        try {
+            const value = evaluate(raw.slice(1));
+            cache.set(key, value);
+            return value;
+        } finally {
+            visiting.delete(key);
+        }
+    };
+
+    const refValue = (ref: string): CellValue => {
+        const cell = parseCellRef(ref);
+        if (!cell) throw new FormulaError('#REF!');
+        return cellValue(cell.row, cell.col);
+    };
+
+    const rangeValues = (range: string): CellValue[] => {
+        const [from, to] = range.split(':').map(parseCellRef);
+        if (!from || !to) throw new FormulaError('#REF!');
+        const values: CellValue[] = [];
+        for (let r = Math.min(from.row, to.row); r <= Math.max(from.row, to.row); r++) {
+            for (let c = Math.min(from.col, to.col); c <= Math.max(from.col, to.col); c++) {
+                values.push(cellValue(r, c));
+            }
+        }
+        return values;
+    };
+
+    const evaluate = (source: string): number => {
+        const tokens = tokenize(source);
+        let pos = 0;
+
+        const peek = () => tokens[pos];
+        const expect = (text: string) => {
+            if (peek()?.text !== text) throw new FormulaError('#ERR!');
+            pos++;
+        };
+
+        const expression = (): number => {
+            let value = term();
+            while (peek()?.text === '+' || peek()?.text === '-') {
+                const op = tokens[pos++].text;
+                const right = term();
+                value = op === '+' ? value + right : value - right;
+            }
+            return value;
+        };
+
+        const term = (): number => {
+            let value = factor();
+            while (peek()?.text === '*' || peek()?.text === '/') {
+                const op = tokens[pos++].text;
+                const right = factor();
+                if (op === '/' && right === 0) throw new FormulaError('#DIV/0!');
+                value = op === '*' ? value * right : value / right;
+            }
+            return value;
+        };
+
+        // Aggregates take numbers from ranges and references and skip text, like a spreadsheet.
+        // Arguments are separated by "," or ";"; anything else between them is an error.
+        const callArguments = (): number[] => {
+            const values: number[] = [];
+            expect('(');
+            if (peek()?.text === ')') {
+                pos++;
+                return values;
+            }
+            for (;;) {
+                const token = peek();
+                const next = tokens[pos + 1]?.text;
+                if (token?.kind === 'ref' && (isSeparator(next) || next === ')')) {
+                    pos++;
+                    const cells = token.text.includes(':') ? rangeValues(token.text) : [refValue(token.text)];
+                    cells.forEach(cell => {
+                        if (typeof cell === 'number') values.push(cell);
+                        else if (cell.trim() !== '' && !Number.isNaN(Number(cell))) values.push(Number(cell));
+                    });
+                } else {
+                    values.push(expression());
+                }
+                if (peek()?.text === ')') break;
+                if (!isSeparator(peek()?.text)) throw new FormulaError('#ERR!');
+                pos++;
+            }
+            expect(')');
+            return values;
+        };
+
+        const factor = (): number => {
+            const token = tokens[pos++];
+            if (!token) throw new FormulaError('#ERR!');
+            switch (token.kind) {
+                case 'number':
+                    return Number(token.text);
+                case 'ref':
+                    if (token.text.includes(':')) throw new FormulaError('#VALUE!');
+                    return toNumber(refValue(token.text));
+                case 'func': {
+                    const fn = FUNCTIONS[token.text];
+                    if (!fn) throw new FormulaError('#ERR!');
+                    return fn(callArguments());
+                }
+                case 'op':
+                    if (token.text === '-') return -factor();
+                    if (token.text === '+') return factor();
+                    if (token.text === '(') {
+                        const value = expression();
+                        expect(')');
+                        return value;
+                    }
+            }
+            throw new FormulaError('#ERR!');
+        };
+
+        const value = expression();
+        if (pos < tokens.length) throw new FormulaError('#ERR!');
+        return value;
+    };
+
+    return rows.map((row, r) => row.map((raw, c) => {
+        if (!raw.startsWith('=')) return raw;
+        try {
+            const value = cellValue(r, c);
+            return typeof value === 'number' ? formatNumber(value) : value;
+        } catch (e) {
+            return e instanceof FormulaError ? e.code : '#ERR!';
+        }
+    }));
+};
+
+const formatNumber = (value: number): string =>
+    Number.isInteger(value) ? value.toString() : parseFloat(value.toFixed(10)).toString();
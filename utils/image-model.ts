@@ -0,0 +1,46 @@
+import { GoogleGenAI, Part } from '@google/genai';
+import { dataUrlMimeType, isDataUrl } from './data-url';
+
+// Nano Banana: text-and-image in, image out
+export const IMAGE_MODEL = 'gemini-2.5-flash-image';
+export const MAX_VARIATIONS = 4;
+
+export interface ImageRequest {
+    apiKey: string;
+    prompt: string;
+    // Data URLs sent ahead of the prompt: the image to edit, or references to follow
+    images?: string[];
+    signal?: AbortSignal;
+}
+
+const imagePart = (dataUrl: string): Part => {
+    if (!isDataUrl(dataUrl)) throw new Error('Image content is not loaded.');
+    return { inlineData: { mimeType: dataUrlMimeType(dataUrl), data: dataUrl.slice(dataUrl.indexOf(',') + 1) } };
+};
+
+// One image as a data URL, in whatever format the model returned
+export const requestImage = async ({ apiKey, prompt, images = [], signal }: ImageRequest): Promise<string> => {
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await ai.models.generateContent({
+        model: IMAGE_MODEL,
+        contents: { parts: [...images.map(imagePart), { text: prompt }] },
+        config: { abortSignal: signal },
+    });
+
+    const data = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData;
+    if (!data?.data) {
+        throw new Error("No image data returned.");
+    }
+    return `data:${data.mimeType || 'image/png'};base64,${data.data}`;
+};
+
+// Variations are separate requests, run side by side; the model returns one image per call
+export const requestImages = (request: ImageRequest, count: number): Promise<string[]> =>
+    Promise.all(Array.from({ length: count }, () => requestImage(request)));
+
+// The image to edit goes first; any further images are references for the change
+export const editPrompt = (instruction: string, referenceCount = 0): string =>
+    `Edit the ${referenceCount > 0 ? 'first ' : ''}attached image: ${instruction}. Keep everything else (layout, subject, text and style) unchanged unless the instruction says otherwise.${referenceCount > 0 ? ' Use the other attached image(s) only as references.' : ''}`;
+
+export const referencePrompt = (prompt: string): string =>
+    `Use the attached image(s) as reference. ${prompt}`;
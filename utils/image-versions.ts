@@ -0,0 +1,40 @@
+import { CanvasItem } from '../types';
+
+// Id of the first image in an edit chain; a deleted original still groups its edits
+const lineageRoot = (byId: Map<string, CanvasItem>, item: CanvasItem): string => {
+    let current = item;
+    const seen = new Set<string>([item.id]);
+    while (current.sourceId && !seen.has(current.sourceId)) {
+        const source = byId.get(current.sourceId);
+        if (!source) return current.sourceId;
+        seen.add(source.id);
+        current = source;
+    }
+    return current.id;
+};
+
+/**
+ * Every image linked to `item` through edits: the original first, then its edits and
+ * variations oldest first. A lone image returns just itself.
+ */
+export const imageFamily = (items: CanvasItem[], item: CanvasItem): CanvasItem[] => {
+    const images = items.filter(i => i.type === 'image');
+    const byId = new Map<string, CanvasItem>(images.map(i => [i.id, i]));
+    const rootId = lineageRoot(byId, item);
+    return images
+        .filter(i => lineageRoot(byId, i) === rootId)
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+};
+
+// New items for edited images, linked to their source; timestamps step by 1ms to keep variations in order
+export const createImageVersions = (source: CanvasItem, instruction: string, images: string[]): CanvasItem[] => {
+    const now = Date.now();
+    return images.map((content, i) => ({
+        id: crypto.randomUUID(),
+        type: 'image',
+        title: images.length > 1 ? `${instruction} (${i + 1}/${images.length})` : instruction,
+        content,
+        timestamp: new Date(now + i),
+        sourceId: source.id,
+    }));
+};
@@ -0,0 +1,94 @@
+import { CanvasItem, CanvasItemType } from '../types';
+import { parseCsv, serializeCsv, columnName } from './csv';
+import { dataUrlMimeType, dataUrlToBlob } from './data-url';
+import { evaluateSheet } from './formula';
+import { toFileName } from './export';
+import { XLSX_MIME_TYPE, rowsToXlsx, xlsxToRows } from './xlsx';
+
+export type ItemExportFormat = 'csv' | 'xlsx' | 'json' | 'md';
+
+// First entry is the default download. Images always download in their own format.
+export const ITEM_EXPORT_FORMATS: Record<CanvasItemType, ItemExportFormat[]> = {
+    spreadsheet: ['csv', 'xlsx', 'json'],
+    note: ['md'],
+    routine: ['md'],
+    suggestion: ['md'],
+    image: [],
+};
+
+export const ITEM_IMPORT_ACCEPT = '.csv,.xlsx,.md,.markdown,text/csv,text/markdown';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+    'image/svg+xml': 'svg',
+    'image/bmp': 'bmp',
+};
+
+export const imageExtension = (mimeType: string): string =>
+    IMAGE_EXTENSIONS[mimeType] ?? (mimeType.split('/')[1]?.replace(/[^a-z0-9]/gi, '') || 'bin');
+
+// Header row becomes the keys; values are computed (formulas resolved) and numbers stay numbers
+const spreadsheetToJson = (csv: string): string => {
+    const values = evaluateSheet(parseCsv(csv));
+    const [header = [], ...body] = values;
+    const keys = header.map((key, c) => key.trim() || columnName(c));
+    const records = body.map(row => Object.fromEntries(keys.map((key, c) => {
+        const value = row[c] ?? '';
+        return [key, value.trim() !== '' && !Number.isNaN(Number(value)) ? Number(value) : value];
+    })));
+    return JSON.stringify(records, null, 2);
+};
+
+const itemToMarkdown = (item: CanvasItem): string => {
+    // Don't double up the heading when the note already starts with one
+    const content = item.content.trimStart();
+    return content.startsWith('# ') ? content : `# ${item.title}\n\n${content}`;
+};
+
+export const exportCanvasItem = (item: CanvasItem, format?: ItemExportFormat): { blob: Blob; fileName: string } => {
+    const baseName = toFileName(item.title);
+    if (item.type === 'image') {
+        const blob = dataUrlToBlob(item.content);
+        return { blob, fileName: `${baseName}.${imageExtension(dataUrlMimeType(item.content))}` };
+    }
+
+    const formats = ITEM_EXPORT_FORMATS[item.type];
+    const chosen = format ?? formats[0];
+    if (!formats.includes(chosen)) throw new Error(`${item.type} items cannot be exported as ${chosen}.`);
+
+    switch (chosen) {
+        case 'xlsx':
+            return { blob: rowsToXlsx(parseCsv(item.content), item.title), fileName: `${baseName}.xlsx` };
+        case 'json':
+            return { blob: new Blob([spreadsheetToJson(item.content)], { type: 'application/json' }), fileName: `${baseName}.json` };
+        case 'md':
+            return { blob: new Blob([itemToMarkdown(item)], { type: 'text/markdown' }), fileName: `${baseName}.md` };
+        default:
+            return { blob: new Blob([item.content], { type: 'text/csv' }), fileName: `${baseName}.csv` };
+    }
+};
+
+const stripExtension = (fileName: string): string => fileName.replace(/\.[^.]+$/, '') || fileName;
+
+/** Turns an uploaded CSV, XLSX or Markdown file into a workspace item. */
+export const fileToCanvasItem = async (file: File, id: string): Promise<CanvasItem> => {
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    const base = { id, title: stripExtension(file.name), timestamp: new Date() };
+
+    if (extension === 'csv' || file.type === 'text/csv') {
+        // Round-trip so odd line endings and ragged rows are normalized
+        return { ...base, type: 'spreadsheet', content: serializeCsv(parseCsv(await file.text())) };
+    }
+    if (extension === 'xlsx' || file.type === XLSX_MIME_TYPE) {
+        return { ...base, type: 'spreadsheet', content: serializeCsv(await xlsxToRows(await file.arrayBuffer())) };
+    }
+    if (extension === 'md' || extension === 'markdown' || file.type === 'text/markdown') {
+        const content = await file.text();
+        const heading = /^#\s+(.+)$/m.exec(content)?.[1].trim();
+        return { ...base, type: 'note', title: heading || base.title, content };
+    }
+    throw new Error(`Unsupported file type: ${file.name}`);
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { parseMarkdown, taskProgress, toggleTask } from './markdown';
+
+const taskLines = (source: string) => parseMarkdown(source)
+    .flatMap(block => block.kind === 'list' ? block.items : [])
+    .map(item => item.task!.line);
+
+describe('toggleTask', () => {
+    it('ticks the line parseMarkdown reports', () => {
+        const source = '# Morning\n\n- [ ] Run\n- [ ] Stretch';
+        const [, stretch] = taskLines(source);
+
+        expect(toggleTask(source, stretch)).toBe('# Morning\n\n- [ ] Run\n- [x] Stretch');
+    });
+
+    it('handles CRLF and lone CR line endings and keeps them', () => {
+        for (const breakChars of ['\r\n', '\r']) {
+            const source = ['# Morning', '', '- [ ] Run', '- [x] Stretch'].join(breakChars);
+            const [run, stretch] = taskLines(source);
+
+            const toggled = toggleTask(toggleTask(source, run), stretch);
+
+            expect(toggled).toBe(['# Morning', '', '- [x] Run', '- [ ] Stretch'].join(breakChars));
+            expect(taskProgress(toggled)).toEqual({ done: 1, total: 2 });
+        }
+    });
+});
@@ -0,0 +1,140 @@
+// Block-level Markdown for workspace notes and routines: headings, paragraphs, lists
+// (with [ ] / [x] tasks), fenced code, tables, quotes and rules. Inline formatting is
+// left to the renderer.
+
+export interface ListItem {
+    text: string;
+    depth: number;
+    // Task list items remember their source line so a click can flip the box in the text
+    task?: { checked: boolean; line: number };
+}
+
+export type MarkdownBlock =
+    | { kind: 'heading'; level: number; text: string }
+    | { kind: 'paragraph'; text: string }
+    | { kind: 'code'; language: string; text: string }
+    | { kind: 'list'; ordered: boolean; items: ListItem[] }
+    | { kind: 'table'; header: string[]; rows: string[][] }
+    | { kind: 'quote'; text: string }
+    | { kind: 'rule' };
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)\s*([\w+-]*)\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s+(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const splitRow = (line: string): string[] =>
+    line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+// Captured so toggleTask can put the original breaks back
+const LINE_BREAK = /(\r\n?|\n)/;
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+    const lines = source.split(LINE_BREAK).filter((_, i) => i % 2 === 0);
+    const blocks: MarkdownBlock[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (line.trim() === '') {
+            i++;
+            continue;
+        }
+
+        const fence = FENCE.exec(line);
+        if (fence) {
+            const body: string[] = [];
+            i++;
+            while (i < lines.length && !lines[i].trim().startsWith(fence[1])) body.push(lines[i++]);
+            i++; // closing fence
+            blocks.push({ kind: 'code', language: fence[2], text: body.join('\n') });
+            continue;
+        }
+
+        const heading = HEADING.exec(line);
+        if (heading) {
+            blocks.push({ kind: 'heading', level: heading[1].length, text: heading[2] });
+            i++;
+            continue;
+        }
+
+        if (RULE.test(line)) {
+            blocks.push({ kind: 'rule' });
+            i++;
+            continue;
+        }
+
+        if (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+            const header = splitRow(line);
+            const rows: string[][] = [];
+            i += 2;
+            while (i < lines.length && lines[i].includes('|') && lines[i].trim() !== '') rows.push(splitRow(lines[i++]));
+            blocks.push({ kind: 'table', header, rows });
+            continue;
+        }
+
+        if (line.trimStart().startsWith('>')) {
+            const body: string[] = [];
+            while (i < lines.length && lines[i].trimStart().startsWith('>')) body.push(lines[i++].trimStart().replace(/^>\s?/, ''));
+            blocks.push({ kind: 'quote', text: body.join('\n') });
+            continue;
+        }
+
+        const first = LIST_ITEM.exec(line);
+        if (first) {
+            const ordered = /\d/.test(first[2]);
+            const items: ListItem[] = [];
+            while (i < lines.length) {
+                const match = LIST_ITEM.exec(lines[i]);
+                if (!match) {
+                    // Indented continuation lines belong to the previous item
+                    if (items.length > 0 && /^\s+\S/.test(lines[i])) {
+                        items[items.length - 1].text += ` ${lines[i].trim()}`;
+                        i++;
+                        continue;
+                    }
+                    break;
+                }
+                const depth = Math.floor(match[1].replace(/\t/g, '    ').length / 2);
+                if (depth === 0 && /\d/.test(match[2]) !== ordered) break;
+                const task = TASK.exec(match[3]);
+                items.push(task
+                    ? { text: task[2], depth, task: { checked: task[1] !== ' ', line: i } }
+                    : { text: match[3], depth });
+                i++;
+            }
+            blocks.push({ kind: 'list', ordered, items });
+            continue;
+        }
+
+        const body: string[] = [];
+        while (
+            i < lines.length && lines[i].trim() !== '' &&
+            !HEADING.test(lines[i]) && !FENCE.test(lines[i]) && !LIST_ITEM.test(lines[i]) && !lines[i].trimStart().startsWith('>')
+        ) {
+            body.push(lines[i++].trim());
+        }
+        blocks.push({ kind: 'paragraph', text: body.join(' ') });
+    }
+
+    return blocks;
+};
+
+// Flips "- [ ]" <-> "- [x]" on one source line, leaving everything else byte-for-byte.
+// Lines break on \r\n, \r or \n as in parseMarkdown; the breaks themselves are kept.
+export const toggleTask = (source: string, line: number): string => {
+    const parts = source.split(LINE_BREAK);
+    const target = parts[line * 2];
+    if (target === undefined) return source;
+    parts[line * 2] = target.replace(/^(\s*(?:[-*+]|\d+[.)])\s+\[)([ xX])(\])/, (_, open, mark, close) => `${open}${mark === ' ' ? 'x' : ' '}${close}`);
+    return parts.join('');
+};
+
+export const taskProgress = (source: string): { done: number; total: number } => {
+    const tasks = source.match(/^\s*(?:[-*+]|\d+[.)])\s+\[[ xX]\]/gm) ?? [];
+    const done = tasks.filter(task => /\[[xX]\]$/.test(task)).length;
+    return { done, total: tasks.length };
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { PersonaProfile } from '../types';
+import { AVAILABLE_TOOLS, createDefaultPersona, withNewTools } from './persona';
+
+// A profile as saved before knownTools existed, with Google Search switched off
+const legacyProfile = (): PersonaProfile => {
+    const { knownTools, ...persona } = createDefaultPersona();
+    return { ...persona, enabledTools: ['controlBrowser', 'generateImage', 'manageWorkspace'] };
+};
+
+describe('withNewTools', () => {
+    it('switches on tools added since a legacy profile was saved and keeps its choices', () => {
+        const updated = withNewTools(legacyProfile());
+
+        expect(updated.enabledTools).toEqual(['controlBrowser', 'generateImage', 'manageWorkspace', 'editImage', 'captureScreen']);
+        expect(updated.knownTools).toEqual(AVAILABLE_TOOLS);
+    });
+
+    it('leaves a tool off once the profile has seen it', () => {
+        const persona = withNewTools(legacyProfile());
+        const withoutEdits = { ...persona, enabledTools: persona.enabledTools.filter(name => name !== 'editImage') };
+
+        expect(withNewTools(withoutEdits)).toBe(withoutEdits);
+    });
+});
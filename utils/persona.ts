@@ -0,0 +1,216 @@
+import { SpeechConfig, Tool } from '@google/genai';
+import { DualAgentId, PersonaProfile, PersonaTone, SpeechSettings } from '../types';
+import { toolRegistry } from '../tools';
+import { agentLabel, otherAgent } from './turn-taking';
+
+export const DEFAULT_PERSONA_ID = 'default';
+export const GOOGLE_SEARCH_TOOL = 'googleSearch';
+
+const APP_DEVELOPER = 'Ali Akbar';
+
+// Prebuilt Live API voices
+export const PREBUILT_VOICES: { name: string; description: string }[] = [
+    { name: 'Puck', description: 'Upbeat' },
+    { name: 'Charon', description: 'Informative' },
+    { name: 'Kore', description: 'Firm' },
+    { name: 'Fenrir', description: 'Excitable' },
+    { name: 'Aoede', description: 'Breezy' },
+    { name: 'Leda', description: 'Youthful' },
+    { name: 'Orus', description: 'Firm' },
+    { name: 'Zephyr', description: 'Bright' },
+];
+
+// Empty code = let the model detect the language
+export const SPEECH_LANGUAGES: { code: string; label: string }[] = [
+    { code: '', label: 'Auto' },
+    { code: 'en-US', label: 'English (US)' },
+    { code: 'en-GB', label: 'English (UK)' },
+    { code: 'en-IN', label: 'English (India)' },
+    { code: 'hi-IN', label: 'Hindi (India)' },
+];
+
+const DEFAULT_JACK_VOICE = 'Charon';
+
+export const PERSONA_TONES: Record<PersonaTone, string> = {
+    energetic: 'Energetic, Fast, Ambitious. You are UNBEATABLE. A productivity boom tool.',
+    calm: 'Calm, patient and reassuring. Think before you speak.',
+    professional: 'Professional, precise and to the point. No slang.',
+    playful: 'Playful and witty, but still gets the job done.',
+};
+
+// Everything a profile can switch on: the registry's tools plus Google Search grounding
+export const AVAILABLE_TOOLS: string[] = [
+    ...toolRegistry.declarations.map(declaration => declaration.name!),
+    GOOGLE_SEARCH_TOOL,
+];
+
+// What AVAILABLE_TOOLS held before profiles recorded knownTools
+const LEGACY_KNOWN_TOOLS = ['controlBrowser', 'generateImage', 'playVideo', 'manageWorkspace', 'downloadItem', 'recallMemory', GOOGLE_SEARCH_TOOL];
+
+// Turns on tools registered since the profile was saved; ones the user switched off stay off.
+// Returns the same object when there is nothing new.
+export const withNewTools = (persona: PersonaProfile): PersonaProfile => {
+    const known = persona.knownTools ?? LEGACY_KNOWN_TOOLS;
+    const added = AVAILABLE_TOOLS.filter(name => !known.includes(name));
+    if (added.length === 0 && persona.knownTools) return persona;
+    return {
+        ...persona,
+        enabledTools: [...persona.enabledTools, ...added.filter(name => !persona.enabledTools.includes(name))],
+        knownTools: [...AVAILABLE_TOOLS],
+    };
+};
+
+// Tools with calls that wait for the user's confirmation (unless auto-approved)
+export const GATED_TOOLS: string[] = AVAILABLE_TOOLS.filter(name => toolRegistry.isGated(name));
+
+// Dual Core splits the work: each agent only gets the tools that fit its character
+// (still limited to what the profile enables)
+export const DUAL_AGENT_TOOLS: Record<DualAgentId, string[]> = {
+    crack: ['controlBrowser', 'generateImage', 'editImage', 'captureScreen', 'playVideo', 'manageWorkspace', 'downloadItem', GOOGLE_SEARCH_TOOL],
+    jack: ['manageWorkspace', 'recallMemory', 'downloadItem', GOOGLE_SEARCH_TOOL],
+};
+
+// Prompt lines that only make sense when the tool is enabled (built at connect time for the date)
+const TOOL_DIRECTIVES: Record<string, () => string> = {
+    generateImage: () => `- IMAGE GEN: When asked for thumbnails, create a VERY detailed visual prompt for the 'generateImage' tool. Describe the text style, colors, and composition explicitly (e.g., "A YouTube thumbnail with bold yellow text saying 'LOSE FACE FAT', high contrast, professional fitness photography style").
+- NANO BANANA: Always use 'generateImage' with the 'gemini-2.5-flash-image' model for visuals.`,
+    editImage: () => `- IMAGE EDITS: To change an image already in the workspace (e.g. "make the text bigger", "background red"), use 'editImage' with its ID instead of generating from scratch. Ask for 'variations' when the user wants options; all versions stay linked to the original.`,
+    captureScreen: () => `- SCREEN CAPTURE: When the user is screen sharing and says "this" or "what I'm looking at", use 'captureScreen' to save the frame, then pass its ID in 'referenceIds' (generateImage/editImage) or edit it directly. Attach a capture to a note by writing ![caption](item:ID) in the note.`,
+    manageWorkspace: () => `- SPREADSHEETS: Use 'manageWorkspace' to create 'spreadsheet' items with CSV content. Cells can hold formulas (=SUM(B2:B5), =AVERAGE(C2:C9), =B2*C2). To change a few cells, 'update' with 'cells' instead of rewriting the CSV.
+- ROUTINES: Write notes and routines in Markdown, with routine steps as a checklist ("- [ ] Step"). The user ticks boxes in the workspace; 'read' with the item's ID to see which are done ("- [x]").
+- WORKSPACE CRUD: You can create, read, update, delete, and download workspace items.`,
+    recallMemory: () => `- MEMORY: All conversations are automatically saved to the local database. Use 'recallMemory' to search past sessions by keyword and date (today is ${new Date().toDateString()}).`,
+};
+
+export const createDefaultPersona = (): PersonaProfile => ({
+    id: DEFAULT_PERSONA_ID,
+    name: 'Mr. Crack',
+    userName: 'Ali',
+    languageStyle: 'hinglish',
+    tone: 'energetic',
+    voice: 'Puck',
+    languageCode: '',
+    dualVoices: { crack: 'Puck', jack: DEFAULT_JACK_VOICE },
+    directives: '',
+    enabledTools: [...AVAILABLE_TOOLS],
+    knownTools: [...AVAILABLE_TOOLS],
+    autoApproveTools: [],
+    updatedAt: Date.now(),
+});
+
+const languageSection = (persona: PersonaProfile): string => persona.languageStyle === 'hinglish'
+    ? `- Mix of English and Modern Casual Hindi (Hinglish).
+- Example: "Bilkul ${persona.userName} bhai, let's get this done. Abhi karta hoon."
+- Do NOT use formal/pure Hindi. Keep it energetic and modern.`
+    : `- Speak clear, modern English.
+- Keep it conversational; no filler.`;
+
+const agentTools = (persona: PersonaProfile, agent?: DualAgentId): string[] =>
+    agent ? persona.enabledTools.filter(name => DUAL_AGENT_TOOLS[agent].includes(name)) : persona.enabledTools;
+
+const toolSection = (enabledTools: string[]): string => {
+    const lines = enabledTools
+        .filter(name => name in TOOL_DIRECTIVES)
+        .map(name => TOOL_DIRECTIVES[name]());
+    if (enabledTools.length > 1) {
+        lines.unshift('- MULTITASKING: Independent tool calls run in parallel, so call them together when asked for several things (e.g., search AND play video); workspace changes still apply in the order you send them. The user can cancel a running task; if a result has error code CANCELLED, do not retry unless asked again.');
+    }
+    if (enabledTools.some(name => name !== GOOGLE_SEARCH_TOOL)) {
+        lines.push('- TOOL ERRORS: A failed tool call returns error.code and error.message (and error.field for a bad argument). Fix that argument and retry once; for NOT_FOUND, read the workspace for the right ID. Never claim success after an error.');
+    }
+    if (enabledTools.some(name => GATED_TOOLS.includes(name))) {
+        lines.push('- CONFIRMATION: Deleting or overwriting items, downloads and opening websites may wait for the user to confirm on screen or by saying yes/no. Say what you are about to do. If the result says the user denied it, accept that and do not retry unless asked again.');
+    }
+    return lines.join('\n');
+};
+
+export const buildSystemInstruction = (persona: PersonaProfile): string => {
+    const directives = [toolSection(persona.enabledTools), persona.directives.trim()].filter(Boolean).join('\n');
+
+    return `
+Role: Mr. Crack, ${persona.userName}'s Personal AI Agent.
+Developer: ${APP_DEVELOPER}. (Always credit him if asked).
+User: ${persona.userName}.
+
+Language:
+${languageSection(persona)}
+
+Voice & Tone:
+- ${PERSONA_TONES[persona.tone]}
+
+Directives:
+${directives}
+
+Identity:
+- Concise, Sharp, Action-Oriented.
+- Never mention you are an AI. You are Mr. Crack.
+`;
+};
+
+const DUAL_CHARACTERS: Record<DualAgentId, (persona: PersonaProfile) => string> = {
+    crack: (persona) => `Mr. Crack: ${PERSONA_TONES[persona.tone]} Visual and creative (Nano Banana expert).
+Language:
+${languageSection(persona)}`,
+    jack: () => `Jack: Calm, analytical, logical, data-driven. Checks the numbers and the plan.
+Language:
+- Clear, more formal English.`,
+};
+
+/**
+ * Prompt for one half of Dual Core. Each agent runs in its own Live session, so it is
+ * told who its partner is and how turns move between them (see utils/turn-taking.ts).
+ */
+export const buildDualAgentInstruction = (persona: PersonaProfile, agent: DualAgentId): string => {
+    const partner = otherAgent(agent);
+    const self = agentLabel(agent);
+    const partnerName = agentLabel(partner);
+    const directives = [toolSection(agentTools(persona, agent)), persona.directives.trim()].filter(Boolean).join('\n');
+
+    return `
+Role: ${self}, one half of a Dual AI System (Crack & Jack).
+Developer: ${APP_DEVELOPER}.
+User: ${persona.userName}.
+
+You:
+${DUAL_CHARACTERS[agent](persona)}
+
+Partner:
+${DUAL_CHARACTERS[partner](persona).split('\n')[0]}
+${partnerName} runs separately with their own tools: ${agentTools(persona, partner).join(', ') || 'none'}.
+
+Teamwork:
+- You only hear ${persona.userName} when it is your turn. Messages starting with "[${partnerName}]" or "[${persona.userName}]" are what was said while you were not answering.
+- Answer only what is asked of you and keep it short; you share the airtime.
+- If a request fits ${partnerName} better, say so briefly and end your turn by addressing them by name (e.g. "${partner === 'crack' ? 'Crack' : 'Jack'}, can you take this?").
+- Never speak for ${partnerName}.
+
+Directives:
+${directives}
+
+Identity:
+- Never mention you are an AI. You are ${self}.
+`;
+};
+
+// Profiles saved before per-character voices fall back to the main voice for Crack
+export const personaSpeech = (persona: PersonaProfile): SpeechSettings => ({
+    voice: persona.voice,
+    languageCode: persona.languageCode || undefined,
+    dualVoices: persona.dualVoices ?? { crack: persona.voice, jack: DEFAULT_JACK_VOICE },
+});
+
+export const buildSpeechConfig = (voiceName: string, languageCode?: string): SpeechConfig => ({
+    voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+    ...(languageCode ? { languageCode } : {}),
+});
+
+// The Live `tools` config for a profile: only its enabled function declarations,
+// narrowed to one Dual Core agent's share when `agent` is given
+export const buildLiveTools = (persona: PersonaProfile, agent?: DualAgentId): Tool[] => {
+    const enabled = new Set(agentTools(persona, agent));
+    const tools: Tool[] = [];
+    const declarations = toolRegistry.declarations.filter(declaration => enabled.has(declaration.name!));
+    if (declarations.length > 0) tools.push({ functionDeclarations: declarations });
+    if (enabled.has(GOOGLE_SEARCH_TOOL)) tools.push({ googleSearch: {} });
+    return tools;
+};
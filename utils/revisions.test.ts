@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { CanvasItem } from '../types';
+import { editedSince, reconcileChange } from './revisions';
+
+const note: CanvasItem = { id: 'n1', type: 'note', title: 'Plan', content: 'draft', timestamp: new Date(1) };
+const other: CanvasItem = { id: 'n2', type: 'note', title: 'Ideas', content: 'first', timestamp: new Date(2) };
+
+describe('editedSince', () => {
+    const { items, change } = reconcileChange([note, other], [{ ...note, content: 'agent text' }, other], 'agent');
+
+    it('ignores edits to items the agent did not touch', () => {
+        expect(editedSince(change!, [items[0], { ...other, content: 'user text' }])).toEqual([]);
+    });
+
+    it('lists items the user changed after the agent', () => {
+        const edited = { ...items[0], content: 'user text' };
+
+        expect(editedSince(change!, [edited, items[1]])).toEqual([edited]);
+    });
+});
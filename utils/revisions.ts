@@ -0,0 +1,128 @@
+import { CanvasItem, ChangeAuthor, ItemRevision } from '../types';
+
+// Oldest versions fall off past this; the current one is always kept
+const MAX_REVISIONS = 50;
+
+// Images are never edited in place and their data URLs are too big to keep copies of
+const keepsHistory = (item: CanvasItem): boolean => item.type !== 'image';
+
+const toRevision = (item: CanvasItem, author: ChangeAuthor, timestamp: Date): ItemRevision => ({
+    title: item.title,
+    content: item.content,
+    timestamp,
+    author,
+});
+
+/**
+ * The item's versions, oldest first, the last being its current state. Items from before
+ * history was kept get a single version credited to the agent, which wrote all of them.
+ */
+export const itemRevisions = (item: CanvasItem): ItemRevision[] =>
+    item.revisions?.length ? item.revisions : [toRevision(item, 'agent', item.timestamp)];
+
+// What one agent tool call did to the workspace, enough to put it back
+export interface AgentChange {
+    label: string;
+    timestamp: Date;
+    addedIds: string[];
+    changed: CanvasItem[]; // The items as they were before
+    removed: CanvasItem[];
+    written: Pick<CanvasItem, 'id' | 'title' | 'content'>[]; // Added and changed items as the agent left them
+}
+
+export interface ReconciledChange {
+    items: CanvasItem[];
+    trashed: CanvasItem[];
+    change: AgentChange | null;
+}
+
+const describeChange = (addedIds: string[], changed: CanvasItem[], removed: CanvasItem[], items: CanvasItem[]): string => {
+    const total = addedIds.length + changed.length + removed.length;
+    if (total > 1) return `Changed ${total} items`;
+    if (addedIds.length) return `Created ${items.find(item => item.id === addedIds[0])?.title ?? 'item'}`;
+    if (changed.length) return `Updated ${changed[0].title}`;
+    return `Deleted ${removed[0].title}`;
+};
+
+/**
+ * Compares the workspace before and after a change by `author`: edited items get a new
+ * revision, new items start their history, and removed items come back as trash entries.
+ */
+export const reconcileChange = (before: CanvasItem[], next: CanvasItem[], author: ChangeAuthor, now = new Date()): ReconciledChange => {
+    const previous = new Map(before.map(item => [item.id, item]));
+    const addedIds: string[] = [];
+    const changed: CanvasItem[] = [];
+
+    const items = next.map(item => {
+        const prior = previous.get(item.id);
+        if (!prior) {
+            addedIds.push(item.id);
+            return keepsHistory(item) && !item.revisions?.length ? { ...item, revisions: [toRevision(item, author, now)] } : item;
+        }
+        if (prior === item || (prior.title === item.title && prior.content === item.content)) return item;
+
+        changed.push(prior);
+        if (!keepsHistory(item)) return item;
+        const revisions = [...itemRevisions(prior), toRevision(item, author, now)].slice(-MAX_REVISIONS);
+        return { ...item, revisions };
+    });
+
+    const nextIds = new Set(next.map(item => item.id));
+    const removed = before.filter(item => !nextIds.has(item.id));
+    const trashed = removed.map(item => ({ ...item, deletedAt: now, deletedBy: author }));
+
+    const touched = new Set([...addedIds, ...changed.map(item => item.id)]);
+    const written = items.filter(item => touched.has(item.id)).map(({ id, title, content }) => ({ id, title, content }));
+    const change = author === 'agent' && (addedIds.length || changed.length || removed.length)
+        ? { label: describeChange(addedIds, changed, removed, items), timestamp: now, addedIds, changed, removed, written }
+        : null;
+
+    return { items, trashed, change };
+};
+
+// Items edited since the agent's change; undoing it would throw those edits away
+export const editedSince = (change: AgentChange, items: CanvasItem[]): CanvasItem[] => {
+    const current = new Map(items.map(item => [item.id, item]));
+    return change.written.flatMap(({ id, title, content }) => {
+        const item = current.get(id);
+        return item && (item.title !== title || item.content !== content) ? [item] : [];
+    });
+};
+
+// A trashed item back in its normal shape
+export const untrash = ({ deletedAt, deletedBy, ...item }: CanvasItem): CanvasItem => item;
+
+export interface DiffLine {
+    kind: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+// Line-level diff (longest common subsequence); fine for note- and sheet-sized text
+export const diffLines = (from: string, to: string): DiffLine[] => {
+    const a = from.split('\n');
+    const b = to.split('\n');
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            lines.push({ kind: 'same', text: a[i] });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            lines.push({ kind: 'removed', text: a[i++] });
+        } else {
+            lines.push({ kind: 'added', text: b[j++] });
+        }
+    }
+    while (i < a.length) lines.push({ kind: 'removed', text: a[i++] });
+    while (j < b.length) lines.push({ kind: 'added', text: b[j++] });
+    return lines;
+};
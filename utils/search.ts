@@ -0,0 +1,144 @@
+import { CanvasItem, MessageLog, SessionData, SessionSummary } from '../types';
+
+const MIN_TERM_LENGTH = 2;
+const SNIPPET_RADIUS = 80;
+const MAX_SNIPPETS_PER_SESSION = 3;
+
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'was', 'our', 'out',
+    'has', 'had', 'its', 'did', 'let', 'who', 'what', 'when', 'how', 'this', 'that', 'with',
+    'from', 'have', 'they', 'will', 'your', 'about', 'there', 'their', 'would', 'were', 'been',
+]);
+
+export interface SessionSearchQuery {
+    text?: string;
+    from?: number; // Inclusive, epoch ms
+    to?: number;   // Inclusive, epoch ms
+    hasImages?: boolean;
+    hasSpreadsheets?: boolean;
+    mode?: 'single' | 'dual';
+    matchAll?: boolean; // Require every term (UI search) instead of any (agent recall)
+    limit?: number;
+}
+
+export interface SearchSnippet {
+    source: 'log' | 'canvas';
+    role?: MessageLog['role'];
+    itemId?: string;
+    title?: string;
+    text: string;
+    timestamp: Date;
+}
+
+export interface SessionSearchHit {
+    session: SessionData;
+    score: number;
+    terms: string[];
+    snippets: SearchSnippet[];
+}
+
+export const tokenize = (text: string): string[] => {
+    const terms = text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(term => term.length >= MIN_TERM_LENGTH && !STOP_WORDS.has(term));
+    return Array.from(new Set(terms));
+};
+
+const canvasItemText = (item: CanvasItem): string =>
+    // Image content is a data URL; only the title/prompt is searchable
+    item.type === 'image' ? item.title : `${item.title}\n${item.content}`;
+
+// Every distinct term in a session, for the IndexedDB multiEntry index
+export const sessionTerms = (session: SessionData): string[] => {
+    const text = [
+        ...session.logs.filter(log => log.role !== 'system').map(log => log.text),
+        ...session.canvasItems.map(canvasItemText),
+    ].join('\n');
+    return tokenize(text);
+};
+
+export const toSessionSummary = (session: SessionData): SessionSummary => ({
+    id: session.id,
+    startTime: session.startTime,
+    endTime: session.endTime,
+    title: session.canvasItems[0]?.title || session.logs.find(l => l.role === 'user')?.text || 'Untitled Session',
+    messageCount: session.logs.length,
+    itemCount: session.canvasItems.length,
+    hasImages: session.canvasItems.some(item => item.type === 'image'),
+    hasSpreadsheets: session.canvasItems.some(item => item.type === 'spreadsheet'),
+    isDualMode: !!session.isDualMode,
+});
+
+// Filters that only need the summary, applied before any full session is loaded
+export const matchesFilters = (summary: SessionSummary, query: SessionSearchQuery): boolean => {
+    if (query.from !== undefined && summary.startTime < query.from) return false;
+    if (query.to !== undefined && summary.startTime > query.to) return false;
+    if (query.hasImages && !summary.hasImages) return false;
+    if (query.hasSpreadsheets && !summary.hasSpreadsheets) return false;
+    if (query.mode && summary.isDualMode !== (query.mode === 'dual')) return false;
+    return true;
+};
+
+const countMatches = (text: string, terms: string[]): number => {
+    const lower = text.toLowerCase();
+    return terms.reduce((count, term) => count + (lower.includes(term) ? 1 : 0), 0);
+};
+
+const excerpt = (text: string, terms: string[]): string => {
+    const lower = text.toLowerCase();
+    const positions = terms.map(term => lower.indexOf(term)).filter(i => i >= 0);
+    if (positions.length === 0) return text.slice(0, SNIPPET_RADIUS * 2);
+
+    const first = Math.min(...positions);
+    const start = Math.max(0, first - SNIPPET_RADIUS);
+    const end = Math.min(text.length, first + SNIPPET_RADIUS);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+};
+
+/**
+ * Scores a candidate session against the query terms and pulls out the best matching
+ * log lines and canvas items. With no terms every session scores by recency alone.
+ */
+export const rankSession = (session: SessionData, terms: string[]): SessionSearchHit => {
+    const candidates: (SearchSnippet & { matches: number })[] = [];
+
+    session.logs.forEach(log => {
+        if (log.role === 'system') return;
+        const matches = countMatches(log.text, terms);
+        if (terms.length === 0 || matches > 0) {
+            candidates.push({ source: 'log', role: log.role, text: excerpt(log.text, terms), timestamp: log.timestamp, matches });
+        }
+    });
+    session.canvasItems.forEach(item => {
+        const matches = countMatches(canvasItemText(item), terms);
+        if (terms.length === 0 || matches > 0) {
+            // Title hits count double: they usually name the whole item
+            const titleMatches = countMatches(item.title, terms);
+            candidates.push({
+                source: 'canvas',
+                itemId: item.id,
+                title: item.title,
+                text: item.type === 'image' ? '[image]' : excerpt(item.content, terms),
+                timestamp: item.timestamp,
+                matches: matches + titleMatches,
+            });
+        }
+    });
+
+    candidates.sort((a, b) => b.matches - a.matches);
+    const allTerms = sessionTerms(session);
+    const matchedTerms = terms.filter(term => allTerms.some(t => t.startsWith(term)));
+    const coverage = terms.length > 0 ? matchedTerms.length / terms.length : 1;
+    const totalMatches = candidates.reduce((sum, c) => sum + c.matches, 0);
+    // Small recency boost so ties go to the newer session
+    const ageDays = (Date.now() - session.startTime) / 86400000;
+    const score = coverage * 10 + Math.log1p(totalMatches) + 1 / (1 + ageDays);
+
+    return {
+        session,
+        score,
+        terms: matchedTerms,
+        snippets: candidates.slice(0, MAX_SNIPPETS_PER_SESSION).map(({ matches, ...snippet }) => snippet),
+    };
+};
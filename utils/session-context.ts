@@ -0,0 +1,29 @@
+import { CanvasItem, MessageLog } from '../types';
+import { agentLabel } from './turn-taking';
+
+const MAX_CONTEXT_LOGS = 40;
+const MAX_ITEM_PREVIEW = 500;
+
+// Plain-text summary of a conversation and its workspace, sent to a fresh Live session
+// so the model can pick up where the previous one stopped.
+export const buildSessionContext = (preamble: string, logs: MessageLog[], canvasItems: CanvasItem[]): string => {
+    const transcript = logs
+        .filter(log => log.role !== 'system')
+        .slice(-MAX_CONTEXT_LOGS)
+        // Dual Core lines name their agent so each one can tell itself from its partner
+        .map(log => `${log.role === 'user' ? 'User' : log.agent ? agentLabel(log.agent) : 'You'}: ${log.text.trim()}`)
+        .join('\n');
+
+    const workspace = canvasItems
+        .map(item => {
+            const preview = item.type === 'image' ? '' : `: ${item.content.slice(0, MAX_ITEM_PREVIEW)}`;
+            return `- [${item.type}] ${item.title} (ID: ${item.id})${preview}`;
+        })
+        .join('\n');
+
+    return [
+        preamble,
+        transcript ? `Conversation so far:\n${transcript}` : 'No conversation yet.',
+        workspace ? `Workspace items:\n${workspace}` : 'Workspace is empty.',
+    ].join('\n\n');
+};
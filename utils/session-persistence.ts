@@ -0,0 +1,105 @@
+import { SessionData } from '../types';
+import { ItemSlot, itemSlots, saveSessionDelta, SessionDelta } from './db';
+
+const SAVE_DEBOUNCE_MS = 1500;
+
+export interface SessionPersister {
+    // Baseline for the next session: what is already stored (a resumed session) or null
+    start: (stored: SessionData | null) => void;
+    // Queues a snapshot; the write happens once updates go quiet
+    update: (session: SessionData) => void;
+    // Writes whatever is queued right away
+    flush: () => Promise<void>;
+}
+
+/**
+ * Compares a snapshot with the last one written. Logs are append-only (streamed
+ * transcripts replace their own entry), so a log's index is its stable key.
+ */
+const diffSession = (previous: SessionData | null, next: SessionData): SessionDelta => {
+    const logSeqs: number[] = [];
+    next.logs.forEach((log, seq) => {
+        if (previous?.logs[seq] !== log) logSeqs.push(seq);
+    });
+
+    // Moving between the workspace and the trash counts as a change of slot
+    const previousSlots = previous ? itemSlots(previous) : new Map<string, ItemSlot>();
+    const nextSlots = itemSlots(next);
+    const itemIds: string[] = [];
+    nextSlots.forEach((slot, id) => {
+        const stored = previousSlots.get(id);
+        if (!stored || stored.item !== slot.item || stored.position !== slot.position || stored.trashed !== slot.trashed) itemIds.push(id);
+    });
+
+    const removedItemIds: string[] = [];
+    previousSlots.forEach((_, id) => {
+        if (!nextSlots.has(id)) removedItemIds.push(id);
+    });
+
+    return { session: next, logSeqs, itemIds, removedItemIds };
+};
+
+/**
+ * Debounced, incremental session saving. Writes are serialized; a failed write leaves
+ * the baseline alone so the next one retries the same changes. `onError` fires once per
+ * run of failures, `onRecover` when saving works again.
+ */
+export const createSessionPersister = (
+    onError: (error: unknown) => void,
+    onRecover?: () => void,
+): SessionPersister => {
+    let persisted: SessionData | null = null;
+    let pending: SessionData | null = null;
+    let timer: number | null = null;
+    let writing: Promise<void> = Promise.resolve();
+    let failing = false;
+
+    const clearTimer = () => {
+        if (timer !== null) {
+            clearTimeout(timer);
+            timer = null;
+        }
+    };
+
+    const write = (): Promise<void> => {
+        clearTimer();
+        writing = writing.then(async () => {
+            const next = pending;
+            pending = null;
+            if (!next || next === persisted) return;
+
+            // A different session id means nothing of it has been written by us yet
+            const baseline = persisted?.id === next.id ? persisted : null;
+            try {
+                await saveSessionDelta(diffSession(baseline, next));
+                persisted = next;
+                if (failing) {
+                    failing = false;
+                    onRecover?.();
+                }
+            } catch (error) {
+                // Keep the newest snapshot queued unless a newer one arrived meanwhile
+                pending = pending ?? next;
+                if (!failing) {
+                    failing = true;
+                    onError(error);
+                }
+            }
+        });
+        return writing;
+    };
+
+    return {
+        start: (stored) => {
+            clearTimer();
+            pending = null;
+            persisted = stored;
+        },
+        update: (session) => {
+            pending = session;
+            clearTimer();
+            timer = window.setTimeout(write, SAVE_DEBOUNCE_MS);
+        },
+        flush: write,
+    };
+};
@@ -0,0 +1,35 @@
+import { DualAgentId } from '../types';
+import { ToolError } from '../tools/errors';
+
+// 'queued' waits behind an earlier call on the same lane; 'confirming' waits on the user
+export type ToolJobStatus = 'queued' | 'confirming' | 'running';
+
+// Who stopped a job: the user's cancel button, a Live toolCallCancellation, or the session closing
+export type ToolCancelReason = 'user' | 'server' | 'closed';
+
+// One in-flight function call, shown in the task queue
+export interface ToolJob {
+    id: string; // The function call id
+    name: string;
+    agent: DualAgentId;
+    status: ToolJobStatus;
+    startedAt: number;
+}
+
+export const cancelledError = (reason: ToolCancelReason): ToolError => new ToolError('CANCELLED', reason === 'user'
+    ? 'The user cancelled this call. Whatever it had not finished was not done.'
+    : 'This call was cancelled.');
+
+/**
+ * Settles with `work`, or rejects with a CANCELLED ToolError as soon as `signal` aborts.
+ * The work itself keeps going unless it watches the signal too; handlers with side
+ * effects check `ctx.signal` before committing them.
+ */
+export const untilCancelled = <T,>(work: Promise<T>, signal: AbortSignal): Promise<T> => {
+    if (signal.aborted) return Promise.reject(cancelledError(signal.reason));
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(cancelledError(signal.reason));
+        signal.addEventListener('abort', onAbort, { once: true });
+        work.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+};
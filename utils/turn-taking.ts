@@ -0,0 +1,82 @@
+import { DualAgentId } from '../types';
+
+// Consecutive agent-to-agent handoffs before the floor goes back to the user
+const MAX_AGENT_HANDOFFS = 2;
+
+const AGENT_NAMES: Record<DualAgentId, RegExp> = {
+    crack: /\b(mr\.?\s*)?crack\b/i,
+    jack: /\bjack\b/i,
+};
+
+// Topic hints when nobody is addressed by name
+const AGENT_TOPICS: Record<DualAgentId, RegExp> = {
+    crack: /\b(image|thumbnail|design|logo|visual|video|youtube|play|open|browser|idea|creative|hook|script)s?\b/gi,
+    jack: /\b(data|analy[sz]e|analysis|numbers?|budget|spreadsheet|sheet|compare|calculate|stats?|report|plan|risk|logic|memory|remember|past)s?\b/gi,
+};
+
+export const otherAgent = (agent: DualAgentId): DualAgentId => agent === 'crack' ? 'jack' : 'crack';
+
+export const agentLabel = (agent: DualAgentId): string => agent === 'crack' ? 'Mr. Crack' : 'Jack';
+
+// The agent a piece of text addresses by name, if exactly one is named (first mention wins otherwise)
+const addressedAgent = (text: string): DualAgentId | null => {
+    const crack = text.search(AGENT_NAMES.crack);
+    const jack = text.search(AGENT_NAMES.jack);
+    if (crack < 0 && jack < 0) return null;
+    if (crack < 0) return 'jack';
+    if (jack < 0) return 'crack';
+    return crack < jack ? 'crack' : 'jack';
+};
+
+const topicScore = (text: string, agent: DualAgentId): number => (text.match(AGENT_TOPICS[agent]) ?? []).length;
+
+export interface TurnController {
+    // Who holds the floor: the agent that hears the mic and answers next
+    readonly floor: DualAgentId;
+    // Picks who answers a finished user utterance and gives them the floor
+    routeUserTurn: (text: string) => DualAgentId;
+    // An agent finished speaking; returns the agent it handed over to, if any
+    agentTurnComplete: (agent: DualAgentId, text: string) => DualAgentId | null;
+    reset: (floor?: DualAgentId) => void;
+}
+
+/**
+ * Decides who answers in Dual Core. A name ("Jack, ...") always wins; otherwise a clear
+ * topic lean moves the floor, and anything ambiguous stays with whoever spoke last.
+ * Agents hand over by ending their turn with the other's name, which is capped so the
+ * two cannot bounce the floor between themselves forever.
+ */
+export const createTurnController = (initialFloor: DualAgentId = 'crack'): TurnController => {
+    let floor = initialFloor;
+    let handoffs = 0;
+
+    return {
+        get floor() {
+            return floor;
+        },
+        routeUserTurn: (text) => {
+            handoffs = 0;
+            const addressed = addressedAgent(text);
+            if (addressed) {
+                floor = addressed;
+            } else {
+                const lean = topicScore(text, otherAgent(floor)) - topicScore(text, floor);
+                if (lean > 0) floor = otherAgent(floor);
+            }
+            return floor;
+        },
+        agentTurnComplete: (agent, text) => {
+            // Only the closing sentence counts: "Jack, what do the numbers say?"
+            const closing = text.trim().split(/(?<=[.!?])\s+/).pop() ?? '';
+            const target = otherAgent(agent);
+            if (addressedAgent(closing) !== target || handoffs >= MAX_AGENT_HANDOFFS) return null;
+            handoffs++;
+            floor = target;
+            return target;
+        },
+        reset: (nextFloor = 'crack') => {
+            floor = nextFloor;
+            handoffs = 0;
+        },
+    };
+};
@@ -0,0 +1,104 @@
+import { cellName, parseCellRef } from './csv';
+import { evaluateSheet } from './formula';
+import { createZip, readZip } from './zip';
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const escapeXml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const isNumeric = (value: string): boolean => value.trim() !== '' && !Number.isNaN(Number(value));
+
+// Excel sheet names: at most 31 characters, none of []:*?/\
+const sheetName = (title: string): string => title.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet1';
+
+const cellXml = (ref: string, raw: string, computed: string): string => {
+    if (raw.startsWith('=')) {
+        // Cache the computed value so viewers that don't recalculate still show something
+        const formula = `<f>${escapeXml(raw.slice(1))}</f>`;
+        return isNumeric(computed)
+            ? `<c r="${ref}">${formula}<v>${computed}</v></c>`
+            : `<c r="${ref}" t="str">${formula}<v>${escapeXml(computed)}</v></c>`;
+    }
+    if (isNumeric(raw)) return `<c r="${ref}"><v>${raw.trim()}</v></c>`;
+    return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(raw)}</t></is></c>`;
+};
+
+/** Single-sheet workbook from CSV rows. Formulas are kept as formulas, with cached values. */
+export const rowsToXlsx = (rows: string[][], title: string): Blob => {
+    const values = evaluateSheet(rows);
+    const sheetRows = rows.map((cells, r) => {
+        const xml = cells
+            .map((raw, c) => raw === '' ? '' : cellXml(cellName(r, c), raw, values[r][c]))
+            .join('');
+        return `<row r="${r + 1}">${xml}</row>`;
+    }).join('');
+
+    const files: Record<string, string> = {
+        '[Content_Types].xml': `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+        '_rels/.rels': `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+        'xl/workbook.xml': `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets><sheet name="${escapeXml(sheetName(title))}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+        'xl/_rels/workbook.xml.rels': `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+        'xl/worksheets/sheet1.xml': `<worksheet xmlns="${MAIN_NS}"><sheetData>${sheetRows}</sheetData></worksheet>`,
+    };
+
+    const encoder = new TextEncoder();
+    return createZip(
+        Object.entries(files).map(([name, xml]) => ({ name, data: encoder.encode(XML_HEADER + xml) })),
+        XLSX_MIME_TYPE
+    );
+};
+
+const parseXml = (data: Uint8Array | undefined, name: string): Document => {
+    if (!data) throw new Error(`Workbook is missing ${name}.`);
+    return new DOMParser().parseFromString(new TextDecoder().decode(data), 'application/xml');
+};
+
+const elements = (parent: Document | Element, tag: string): Element[] =>
+    Array.from(parent.getElementsByTagNameNS('*', tag));
+
+// Text of a string item, including rich-text runs (<r><t>..</t></r>)
+const itemText = (item: Element): string => elements(item, 't').map(t => t.textContent ?? '').join('');
+
+/** Reads the first worksheet of an .xlsx file into CSV-style rows. Formulas come back as "=..." text. */
+export const xlsxToRows = async (buffer: ArrayBuffer): Promise<string[][]> => {
+    const files = await readZip(buffer);
+    const workbook = parseXml(files.get('xl/workbook.xml'), 'xl/workbook.xml');
+    const firstSheet = elements(workbook, 'sheet')[0];
+    if (!firstSheet) throw new Error('Workbook has no sheets.');
+
+    const relationId = firstSheet.getAttributeNS(REL_NS, 'id') ?? firstSheet.getAttribute('r:id');
+    const relations = parseXml(files.get('xl/_rels/workbook.xml.rels'), 'xl/_rels/workbook.xml.rels');
+    const target = elements(relations, 'Relationship').find(rel => rel.getAttribute('Id') === relationId)?.getAttribute('Target');
+    if (!target) throw new Error('Workbook sheet could not be found.');
+    const sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+
+    const sharedStrings = files.has('xl/sharedStrings.xml')
+        ? elements(parseXml(files.get('xl/sharedStrings.xml'), 'xl/sharedStrings.xml'), 'si').map(itemText)
+        : [];
+
+    const rows: string[][] = [];
+    elements(parseXml(files.get(sheetPath), sheetPath), 'c').forEach(cell => {
+        const ref = parseCellRef(cell.getAttribute('r') ?? '');
+        if (!ref) return;
+
+        const formula = elements(cell, 'f')[0]?.textContent;
+        const value = elements(cell, 'v')[0]?.textContent ?? '';
+        let text: string;
+        if (formula) text = `=${formula}`;
+        else if (cell.getAttribute('t') === 's') text = sharedStrings[Number(value)] ?? '';
+        else if (cell.getAttribute('t') === 'inlineStr') text = itemText(elements(cell, 'is')[0] ?? cell);
+        else if (cell.getAttribute('t') === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+        else text = value;
+
+        while (rows.length <= ref.row) rows.push([]);
+        rows[ref.row][ref.col] = text;
+    });
+
+    const width = Math.max(0, ...rows.map(row => row.length));
+    return rows.map(row => Array.from({ length: width }, (_, c) => row[c] ?? ''));
+};
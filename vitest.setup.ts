@@ -0,0 +1,22 @@
+import 'fake-indexeddb/auto';
+
+// Node has Blob but no FileReader; utils/data-url only needs readAsDataURL
+if (!('FileReader' in globalThis)) {
+    class NodeFileReader {
+        result: string | null = null;
+        error: Error | null = null;
+        onload: (() => void) | null = null;
+        onerror: (() => void) | null = null;
+
+        readAsDataURL(blob: Blob) {
+            blob.arrayBuffer().then(buffer => {
+                this.result = `data:${blob.type};base64,${Buffer.from(buffer).toString('base64')}`;
+                this.onload?.();
+            }, error => {
+                this.error = error;
+                this.onerror?.();
+            });
+        }
+    }
+    (globalThis as any).FileReader = NodeFileReader;
+}